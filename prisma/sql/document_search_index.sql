@@ -0,0 +1,10 @@
+-- Full-text search index for /api/search.
+-- `prisma db push` cannot express expression indexes, so apply this once after pushing:
+--   npm run db:search-index
+-- The expression must stay identical to DOCUMENT_SEARCH_VECTOR in src/lib/search.ts,
+-- otherwise Postgres will not use the index.
+CREATE INDEX IF NOT EXISTS "Document_search_idx" ON "Document" USING GIN ((
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("siteName", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("markdown", '')), 'C')
+));
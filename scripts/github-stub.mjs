@@ -0,0 +1,109 @@
+// Local stand-in for the GitHub REST API, for trying the GitHub adapter offline.
+//
+//   node scripts/github-stub.mjs                     # listens on :4010
+//   GITHUB_API_URL=http://localhost:4010 npm run dev
+//
+// Then process any of these through the app:
+//   https://github.com/acme/widgets
+//   https://github.com/acme/widgets/tree/main/src
+//   https://github.com/acme/widgets/blob/main/src/index.ts
+//   https://github.com/acme/widgets/issues/1
+//   https://github.com/acme/widgets/pull/2
+//
+// Unknown paths return 404 like the real API. Set GITHUB_STUB_RATE_LIMITED=1 to get a
+// 403 on every request instead.
+import http from 'http';
+
+const port = Number(process.env.PORT || 4010);
+const base64 = (text) => Buffer.from(text, 'utf8').toString('base64');
+
+const repo = {
+  full_name: 'acme/widgets',
+  description: 'Widgets for every occasion',
+  default_branch: 'main',
+  language: 'TypeScript',
+  stargazers_count: 42,
+  topics: ['widgets', 'typescript']
+};
+
+const readme = '# Widgets\n\nA tiny widget library.\n\n## Usage\n\n```ts\nimport { widget } from \'widgets\';\n```\n';
+const indexTs = 'export function widget(name: string) {\n  return `widget:${name}`;\n}\n';
+
+const tree = {
+  truncated: false,
+  tree: [
+    { path: 'README.md', type: 'blob' },
+    { path: 'package.json', type: 'blob' },
+    { path: 'src', type: 'tree' },
+    { path: 'src/README.md', type: 'blob' },
+    { path: 'src/index.ts', type: 'blob' },
+    { path: 'src/util', type: 'tree' },
+    { path: 'src/util/format.ts', type: 'blob' }
+  ]
+};
+
+const alice = { login: 'alice' };
+const bob = { login: 'bob' };
+
+const fixtures = {
+  '/repos/acme/widgets': repo,
+  '/repos/acme/widgets/readme': { type: 'file', encoding: 'base64', content: base64(readme) },
+  '/repos/acme/widgets/readme/src': { type: 'file', encoding: 'base64', content: base64('# Source\n\nEntry point is `index.ts`.\n') },
+  '/repos/acme/widgets/git/trees/main': tree,
+  '/repos/acme/widgets/contents/src/index.ts': { type: 'file', size: indexTs.length, encoding: 'base64', content: base64(indexTs) },
+  '/repos/acme/widgets/issues/1': {
+    title: 'Widgets render twice',
+    body: 'Calling `widget()` in a loop renders each widget twice.',
+    state: 'open',
+    user: alice,
+    created_at: '2024-03-01T10:00:00Z',
+    labels: [{ name: 'bug' }]
+  },
+  '/repos/acme/widgets/issues/1/comments': [
+    { user: bob, body: 'Reproduced on main.', created_at: '2024-03-02T09:00:00Z' },
+    { user: alice, body: 'Fixed by #2.', created_at: '2024-03-05T12:00:00Z' }
+  ],
+  '/repos/acme/widgets/issues/2': {
+    title: 'Render widgets once',
+    body: 'Fixes #1.',
+    state: 'closed',
+    user: bob,
+    created_at: '2024-03-03T08:00:00Z',
+    labels: []
+  },
+  '/repos/acme/widgets/issues/2/comments': [
+    { user: alice, body: 'LGTM, thanks!', created_at: '2024-03-04T16:00:00Z' }
+  ],
+  '/repos/acme/widgets/pulls/2': {
+    merged: true,
+    head: { ref: 'fix-double-render' },
+    base: { ref: 'main' },
+    additions: 3,
+    deletions: 1,
+    changed_files: 1
+  },
+  '/repos/acme/widgets/pulls/2/comments': [
+    { user: alice, body: 'Could this be a `Set`?', path: 'src/index.ts', created_at: '2024-03-03T18:00:00Z' }
+  ]
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const send = (status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (process.env.GITHUB_STUB_RATE_LIMITED) return send(403, { message: 'API rate limit exceeded' });
+
+  const fixture = fixtures[decodeURIComponent(url.pathname)];
+  if (!fixture) return send(404, { message: 'Not Found' });
+
+  // List endpoints are paginated; everything fits on the first page
+  if (Array.isArray(fixture) && Number(url.searchParams.get('page') || 1) > 1) return send(200, []);
+
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+  send(200, fixture);
+});
+
+server.listen(port, () => console.log(`GitHub API stub listening on http://localhost:${port}`));
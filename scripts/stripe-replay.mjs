@@ -0,0 +1,89 @@
+// Offline test harness for the Stripe webhook.
+//
+// Signs every fixture in scripts/stripe-fixtures with STRIPE_WEBHOOK_SECRET, posts it
+// to a running dev server and checks the resulting plan via /api/usage. No Stripe
+// account or network access is needed.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_test STRIPE_PRICE_PRO=price_test_pro npm run dev
+//   STRIPE_WEBHOOK_SECRET=whsec_test npm run stripe:replay
+//
+// Fixtures are applied to the local user (client_reference_id "local"). Event ids are
+// deduplicated, so run against a fresh database or clear the StripeEvent table first.
+import 'dotenv/config';
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import Stripe from 'stripe';
+
+const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+const fixturesDir = path.join(path.dirname(new URL(import.meta.url).pathname), 'stripe-fixtures');
+
+// Plan the local user should be on after each fixture
+const expectedPlans = {
+  '01-checkout-session-completed.json': 'STARTER',
+  '02-subscription-upgraded.json': 'PRO',
+  '03-invoice-payment-failed.json': 'PRO',
+  '04-subscription-past-due.json': 'PRO',
+  '05-subscription-deleted.json': 'FREE'
+};
+
+if (!secret) {
+  console.error('Set STRIPE_WEBHOOK_SECRET to the same value the dev server uses.');
+  process.exit(1);
+}
+
+const stripe = new Stripe('sk_test_offline');
+let failures = 0;
+
+function check(label, ok, detail = '') {
+  console.log(`${ok ? 'PASS' : 'FAIL'}  ${label}${detail ? ` (${detail})` : ''}`);
+  if (!ok) failures++;
+}
+
+async function send(payload, signature) {
+  const res = await fetch(`${baseUrl}/api/webhooks/stripe`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'stripe-signature': signature },
+    body: payload
+  });
+  return { status: res.status, body: await res.json().catch(() => ({})) };
+}
+
+function sign(payload) {
+  return stripe.webhooks.generateTestHeaderString({ payload, secret });
+}
+
+async function currentPlan() {
+  const res = await fetch(`${baseUrl}/api/usage`);
+  return (await res.json()).plan;
+}
+
+// Touching /api/usage creates the local user if it does not exist yet
+console.log(`Starting plan: ${await currentPlan()}`);
+
+const files = (await readdir(fixturesDir)).filter(f => f.endsWith('.json')).sort();
+
+for (const file of files) {
+  const payload = await readFile(path.join(fixturesDir, file), 'utf8');
+  const { status, body } = await send(payload, sign(payload));
+  check(`${file} accepted`, status === 200, `${status} ${body.result || body.error || ''}`);
+
+  if (expectedPlans[file]) {
+    const plan = await currentPlan();
+    check(`${file} -> plan ${expectedPlans[file]}`, plan === expectedPlans[file], `got ${plan}`);
+  }
+}
+
+// Replaying an event must not apply it twice
+const first = await readFile(path.join(fixturesDir, files[0]), 'utf8');
+const replay = await send(first, sign(first));
+check('duplicate event is ignored', replay.status === 200 && replay.body.result === 'duplicate', replay.body.result);
+check('plan unchanged by duplicate', (await currentPlan()) === 'FREE');
+
+// A payload signed with the wrong secret must be rejected
+const forged = stripe.webhooks.generateTestHeaderString({ payload: first, secret: 'whsec_wrong' });
+const rejected = await send(first, forged);
+check('bad signature is rejected', rejected.status === 400, String(rejected.status));
+
+console.log(failures === 0 ? '\nAll webhook checks passed.' : `\n${failures} check(s) failed.`);
+process.exit(failures === 0 ? 0 : 1);
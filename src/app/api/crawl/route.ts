@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/user';
+import { addDocumentToPile } from '@/lib/piles';
+import { saveDocument } from '@/lib/documents';
+import { checkQuota, quotaExceededResponse, remainingQuota } from '@/lib/quota';
+import { readJsonBody, invalidJson, notFound } from '@/lib/api';
+import { crawlSite, DEFAULT_CRAWL_PAGES, MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from '@/lib/crawl';
+import { ExtractionError } from '@/lib/extraction';
+
+export const runtime = 'nodejs';
+// Crawling stops starting pages after DEFAULT_CRAWL_TIME_MS, leaving time for the last
+// fetch and for saving
+export const maxDuration = 300;
+
+interface CrawlBody {
+  url?: string;
+  maxDepth?: number;
+  maxPages?: number;
+  pathPrefix?: string;
+  sitemap?: boolean;
+  // Add to an existing pile instead of creating one
+  pileId?: string;
+  title?: string;
+}
+
+// Crawl a docs section and save every page, in navigation order, into a pile
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody<CrawlBody>(request);
+    if (!body) return invalidJson();
+
+    if (!body.url) return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    try {
+      new URL(body.url);
+    } catch {
+      return NextResponse.json({ error: 'Invalid URL format' }, { status: 400 });
+    }
+    if (body.maxDepth !== undefined && !(Number.isInteger(body.maxDepth) && body.maxDepth >= 0 && body.maxDepth <= MAX_CRAWL_DEPTH)) {
+      return NextResponse.json({ error: `maxDepth must be an integer between 0 and ${MAX_CRAWL_DEPTH}` }, { status: 400 });
+    }
+    if (body.maxPages !== undefined && !(Number.isInteger(body.maxPages) && body.maxPages >= 1 && body.maxPages <= MAX_CRAWL_PAGES)) {
+      return NextResponse.json({ error: `maxPages must be an integer between 1 and ${MAX_CRAWL_PAGES}` }, { status: 400 });
+    }
+    if (body.pileId !== undefined && typeof body.pileId !== 'string') {
+      return NextResponse.json({ error: 'pileId must be a string' }, { status: 400 });
+    }
+    if (body.sitemap !== undefined && typeof body.sitemap !== 'boolean') {
+      return NextResponse.json({ error: 'sitemap must be a boolean' }, { status: 400 });
+    }
+    if (body.title !== undefined && typeof body.title !== 'string') {
+      return NextResponse.json({ error: 'title must be a string' }, { status: 400 });
+    }
+    if (body.pathPrefix !== undefined && (typeof body.pathPrefix !== 'string' || !body.pathPrefix.startsWith('/'))) {
+      return NextResponse.json({ error: 'pathPrefix must start with /' }, { status: 400 });
+    }
+
+    const user = await getCurrentUser();
+
+    let pile: { id: string; title: string } | null = null;
+    if (body.pileId) {
+      pile = await prisma.pile.findFirst({ where: { id: body.pileId, userId: user.id }, select: { id: true, title: true } });
+      if (!pile) return notFound('Pile');
+    } else {
+      const pileLimit = await checkQuota(user, 'piles');
+      if (pileLimit) return quotaExceededResponse(pileLimit);
+    }
+
+    // Never crawl more pages than the plan has room to save
+    const exceeded = await checkQuota(user, 'urls');
+    if (exceeded) return quotaExceededResponse(exceeded);
+    const remaining = await remainingQuota(user, 'urls');
+    const requested = body.maxPages ?? DEFAULT_CRAWL_PAGES;
+    const maxPages = remaining === null ? requested : Math.min(requested, remaining);
+
+    let crawl;
+    try {
+      crawl = await crawlSite(body.url, {
+        maxDepth: body.maxDepth,
+        maxPages,
+        pathPrefix: body.pathPrefix,
+        sitemap: body.sitemap
+      });
+    } catch (crawlError) {
+      if (crawlError instanceof ExtractionError) {
+        return NextResponse.json({ error: crawlError.message }, { status: crawlError.status });
+      }
+      throw crawlError;
+    }
+
+    if (crawl.pages.length === 0) {
+      return NextResponse.json({ error: 'No pages could be crawled', failed: crawl.failed }, { status: 422 });
+    }
+
+    if (!pile) {
+      pile = await prisma.pile.create({
+        data: {
+          title: body.title?.trim() || crawl.pages[0].result.title,
+          description: `Crawled from ${body.url}`,
+          userId: user.id
+        },
+        select: { id: true, title: true }
+      });
+    }
+
+    // Sequential so pile positions follow crawl order
+    const pages = [];
+    for (const page of crawl.pages) {
+      const document = await saveDocument(user.id, {
+        url: page.url,
+        title: page.result.title,
+        siteName: page.result.siteName,
+        markdown: page.result.markdown
+      });
+      await addDocumentToPile(pile.id, document.id);
+      pages.push({ url: page.url, depth: page.depth, documentId: document.id, result: { ...page.result, id: document.id } });
+    }
+
+    return NextResponse.json({
+      pile,
+      pages,
+      failed: crawl.failed,
+      // More pages were in scope than were crawled; limitedByPlan says the plan's URL limit was the cap,
+      // timedOut that the time budget ran out
+      truncated: crawl.truncated,
+      timedOut: crawl.timedOut,
+      limitedByPlan: maxPages < requested
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Crawl API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { purgeExpiredDocuments } from '@/lib/retention';
+import { purgeExpiredCache } from '@/lib/scrape-cache';
+
+export const runtime = 'nodejs';
+
+// Retention purge, run daily by Vercel Cron (see vercel.json).
+// Vercel sends `Authorization: Bearer $CRON_SECRET`; anything else is rejected.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = {
+      ...await purgeExpiredDocuments(),
+      cacheEntriesPurged: await purgeExpiredCache()
+    };
+    console.log('Retention purge:', result);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Retention purge failed:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
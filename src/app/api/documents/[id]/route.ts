@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/user';
+import { retentionDates, isContentExpired } from '@/lib/retention';
+import { readJsonBody, invalidJson, notFound } from '@/lib/api';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Full document including its Markdown and the piles it belongs to
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser();
+
+    const document = await prisma.document.findFirst({
+      where: { id, userId: user.id },
+      include: { pileItems: { select: { pile: { select: { id: true, title: true } } } } }
+    });
+    if (!document) return notFound('Document');
+
+    const { pileItems, ...rest } = document;
+    return NextResponse.json({
+      ...rest,
+      contentExpired: isContentExpired(document),
+      piles: pileItems.map(item => item.pile)
+    });
+  } catch (error) {
+    console.error('Document API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Store re-fetched content for a saved document and restart its retention clocks
+export async function PATCH(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await readJsonBody<{ markdown?: unknown; title?: unknown; siteName?: unknown }>(request);
+    if (!body) return invalidJson();
+    if (typeof body.markdown !== 'string' || !body.markdown) {
+      return NextResponse.json({ error: 'markdown is required' }, { status: 400 });
+    }
+    for (const key of ['title', 'siteName'] as const) {
+      if (body[key] !== undefined && typeof body[key] !== 'string') {
+        return NextResponse.json({ error: `${key} must be a string` }, { status: 400 });
+      }
+    }
+    const { title, siteName } = body as { title?: string; siteName?: string };
+
+    const user = await getCurrentUser();
+    const { count } = await prisma.document.updateMany({
+      where: { id, userId: user.id },
+      data: {
+        markdown: body.markdown,
+        ...(title ? { title } : {}),
+        ...(siteName ? { siteName } : {}),
+        ...retentionDates()
+      }
+    });
+    if (count === 0) return notFound('Document');
+
+    return NextResponse.json(await prisma.document.findUnique({ where: { id } }));
+  } catch (error) {
+    console.error('Document API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Delete a document from history; it is removed from any piles too
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser();
+
+    const { count } = await prisma.document.deleteMany({ where: { id, userId: user.id } });
+    if (count === 0) return notFound('Document');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Document API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
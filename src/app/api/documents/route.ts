@@ -1,8 +1,52 @@
 import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import { listDocuments, parseDocumentQuery, parseSaveDocumentInput, saveDocument } from '@/lib/documents';
+import { checkQuota, quotaExceededResponse } from '@/lib/quota';
+import { readJsonBody, invalidJson } from '@/lib/api';
 
-// Documents endpoint disabled - no authentication
-// This was used to fetch user-specific document history
+export const runtime = 'nodejs';
 
-export async function GET() {
-  return NextResponse.json([]);
+// Document history for the History Dashboard.
+// Query: cursor, limit, siteName, from, to, type (web|youtube), sort (createdAt|title|siteName), order (asc|desc)
+export async function GET(request: Request) {
+  try {
+    const query = parseDocumentQuery(new URL(request.url).searchParams);
+    if (typeof query === 'string') return NextResponse.json({ error: query }, { status: 400 });
+
+    const user = await getCurrentUser();
+    return NextResponse.json(await listDocuments(user.id, query));
+  } catch (error) {
+    console.error('Documents API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+function isHttpUrl(value: string) {
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Save a processed result to the user's history
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+    if (!body) return invalidJson();
+    const input = parseSaveDocumentInput(body);
+    if (typeof input === 'string') return NextResponse.json({ error: input }, { status: 400 });
+    // Shown as a link on public share pages, so nothing but http(s)
+    if (!isHttpUrl(input.url)) return NextResponse.json({ error: 'url must be an http(s) URL' }, { status: 400 });
+
+    const user = await getCurrentUser();
+    const exceeded = await checkQuota(user, 'urls');
+    if (exceeded) return quotaExceededResponse(exceeded);
+
+    const document = await saveDocument(user.id, input);
+    return NextResponse.json(document, { status: 201 });
+  } catch (error) {
+    console.error('Documents API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
 }
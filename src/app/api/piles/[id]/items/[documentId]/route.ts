@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/user';
+import { removeDocumentFromPile } from '@/lib/piles';
+import { notFound } from '@/lib/api';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string; documentId: string }> };
+
+// Take a document out of a pile. The document itself is kept.
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id, documentId } = await params;
+    const user = await getCurrentUser();
+
+    const pile = await prisma.pile.findFirst({ where: { id, userId: user.id }, select: { id: true } });
+    if (!pile) return notFound('Pile');
+
+    const removed = await removeDocumentFromPile(pile.id, documentId);
+    if (!removed) return notFound('Document');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Pile Items API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
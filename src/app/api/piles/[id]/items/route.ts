@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/user';
+import { findPile, addDocumentToPile, reorderPile } from '@/lib/piles';
+import { parseSaveDocumentInput, saveDocument } from '@/lib/documents';
+import { checkQuota, quotaExceededResponse } from '@/lib/quota';
+import { readJsonBody, invalidJson, notFound } from '@/lib/api';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Add a document to the end of a pile
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    // Either { documentId } of a saved document, or { url, title, siteName, markdown } of a
+    // freshly processed result to save and add in one step
+    const body = await readJsonBody(request);
+    if (!body) return invalidJson();
+    if (body.documentId !== undefined && typeof body.documentId !== 'string') {
+      return NextResponse.json({ error: 'documentId must be a string' }, { status: 400 });
+    }
+    if (!body.documentId && !body.url) return NextResponse.json({ error: 'documentId or url is required' }, { status: 400 });
+    const input = body.documentId ? null : parseSaveDocumentInput(body);
+    if (typeof input === 'string') return NextResponse.json({ error: input }, { status: 400 });
+
+    const user = await getCurrentUser();
+    const pile = await prisma.pile.findFirst({ where: { id, userId: user.id }, select: { id: true } });
+    if (!pile) return notFound('Pile');
+
+    let documentId: string;
+    if (input) {
+      const exceeded = await checkQuota(user, 'urls');
+      if (exceeded) return quotaExceededResponse(exceeded);
+
+      const document = await saveDocument(user.id, input);
+      documentId = document.id;
+    } else {
+      documentId = body.documentId as string;
+      const document = await prisma.document.findFirst({ where: { id: documentId, userId: user.id }, select: { id: true } });
+      if (!document) return notFound('Document');
+    }
+
+    const item = await addDocumentToPile(pile.id, documentId);
+    return NextResponse.json(item, { status: 201 });
+  } catch (error) {
+    console.error('Pile Items API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Reorder the pile: body is { documentIds: [...] } listing every document in the new order
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await readJsonBody<{ documentIds?: unknown }>(request);
+    if (!body) return invalidJson();
+
+    const { documentIds } = body;
+    if (!Array.isArray(documentIds) || !documentIds.every(d => typeof d === 'string')) {
+      return NextResponse.json({ error: 'documentIds must be an array of strings' }, { status: 400 });
+    }
+
+    const user = await getCurrentUser();
+    const pile = await prisma.pile.findFirst({ where: { id, userId: user.id }, select: { id: true } });
+    if (!pile) return notFound('Pile');
+
+    const ok = await reorderPile(pile.id, documentIds);
+    if (!ok) {
+      return NextResponse.json({ error: 'documentIds must list every document in the pile exactly once' }, { status: 400 });
+    }
+
+    return NextResponse.json(await findPile(pile.id, user.id));
+  } catch (error) {
+    console.error('Pile Items API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
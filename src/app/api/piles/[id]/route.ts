@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/user';
+import { findPile } from '@/lib/piles';
+import { readJsonBody, invalidJson, notFound } from '@/lib/api';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Fetch a pile with its documents in pile order
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser();
+
+    const pile = await findPile(id, user.id);
+    if (!pile) return notFound('Pile');
+
+    return NextResponse.json(pile);
+  } catch (error) {
+    console.error('Pile API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Rename a pile and/or change its description
+export async function PATCH(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await readJsonBody<{ title?: unknown; description?: unknown }>(request);
+    if (!body) return invalidJson();
+
+    const data: { title?: string; description?: string | null } = {};
+    if (body.title !== undefined) {
+      if (typeof body.title !== 'string') return NextResponse.json({ error: 'Title must be a string' }, { status: 400 });
+      const title = body.title.trim();
+      if (!title) return NextResponse.json({ error: 'Title cannot be empty' }, { status: 400 });
+      data.title = title;
+    }
+    if (body.description !== undefined) {
+      if (body.description !== null && typeof body.description !== 'string') {
+        return NextResponse.json({ error: 'Description must be a string' }, { status: 400 });
+      }
+      data.description = body.description?.trim() || null;
+    }
+
+    const user = await getCurrentUser();
+    const { count } = await prisma.pile.updateMany({ where: { id, userId: user.id }, data });
+    if (count === 0) return notFound('Pile');
+
+    return NextResponse.json(await prisma.pile.findUnique({ where: { id } }));
+  } catch (error) {
+    console.error('Pile API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Delete a pile. Its documents stay in the user's history; only the items go.
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser();
+
+    const { count } = await prisma.pile.deleteMany({ where: { id, userId: user.id } });
+    if (count === 0) return notFound('Pile');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Pile API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
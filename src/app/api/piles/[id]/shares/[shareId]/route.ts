@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/user';
+import { notFound } from '@/lib/api';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string; shareId: string }> };
+
+// Revoke a share link. The row is kept so its view count stays visible to the owner.
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id, shareId } = await params;
+    const user = await getCurrentUser();
+
+    const { count } = await prisma.pileShare.updateMany({
+      where: { id: shareId, pileId: id, pile: { userId: user.id }, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    if (count === 0) return notFound('Share');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Pile Shares API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
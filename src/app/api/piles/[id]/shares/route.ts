@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/user';
+import { generateShareToken, isShareActive } from '@/lib/shares';
+import { readJsonBody, invalidJson, notFound } from '@/lib/api';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+function withLinks<T extends { token: string; expiresAt: Date | null; revokedAt: Date | null }>(share: T, origin: string) {
+  return {
+    ...share,
+    active: isShareActive(share),
+    url: `${origin}/share/${share.token}`,
+    rawUrl: `${origin}/api/share/${share.token}`
+  };
+}
+
+// List every share link ever created for a pile, including revoked and expired ones
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser();
+
+    const pile = await prisma.pile.findFirst({ where: { id, userId: user.id }, select: { id: true } });
+    if (!pile) return notFound('Pile');
+
+    const shares = await prisma.pileShare.findMany({
+      where: { pileId: pile.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const origin = new URL(request.url).origin;
+    return NextResponse.json(shares.map(share => withLinks(share, origin)));
+  } catch (error) {
+    console.error('Pile Shares API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Create a read-only share link. Body: { expiresAt?: ISO date } or { expiresInDays?: number }
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await readJsonBody<{ expiresAt?: unknown; expiresInDays?: unknown }>(request);
+    if (!body) return invalidJson();
+
+    let expiresAt: Date | null = null;
+    if (body.expiresAt !== undefined && body.expiresAt !== null) {
+      // ISO strings only: a bare number would be read as epoch milliseconds
+      expiresAt = typeof body.expiresAt === 'string' && /^\d{4}-\d{2}-\d{2}/.test(body.expiresAt) ? new Date(body.expiresAt) : null;
+      if (!expiresAt || isNaN(expiresAt.getTime())) {
+        return NextResponse.json({ error: 'expiresAt must be an ISO date string' }, { status: 400 });
+      }
+    } else if (body.expiresInDays !== undefined) {
+      if (typeof body.expiresInDays !== 'number' || !Number.isFinite(body.expiresInDays) || body.expiresInDays <= 0) {
+        return NextResponse.json({ error: 'expiresInDays must be a positive number' }, { status: 400 });
+      }
+      expiresAt = new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000);
+      if (isNaN(expiresAt.getTime())) {
+        return NextResponse.json({ error: 'expiresInDays is too large' }, { status: 400 });
+      }
+    }
+    if (expiresAt && expiresAt <= new Date()) {
+      return NextResponse.json({ error: 'Expiry must be in the future' }, { status: 400 });
+    }
+
+    const user = await getCurrentUser();
+    const pile = await prisma.pile.findFirst({ where: { id, userId: user.id }, select: { id: true } });
+    if (!pile) return notFound('Pile');
+
+    const share = await prisma.pileShare.create({
+      data: { pileId: pile.id, token: generateShareToken(), expiresAt }
+    });
+
+    return NextResponse.json(withLinks(share, new URL(request.url).origin), { status: 201 });
+  } catch (error) {
+    console.error('Pile Shares API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
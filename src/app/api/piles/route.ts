@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/user';
+import { listPiles } from '@/lib/piles';
+import { checkQuota, quotaExceededResponse } from '@/lib/quota';
+import { readJsonBody, invalidJson } from '@/lib/api';
+
+export const runtime = 'nodejs';
+
+// List the caller's piles, most recently touched first
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    const piles = await listPiles(user.id);
+
+    return NextResponse.json(piles.map(({ _count, ...pile }) => ({ ...pile, itemCount: _count.items })));
+  } catch (error) {
+    console.error('Piles API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Create a new, empty pile
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody<{ title?: unknown; description?: unknown }>(request);
+    if (!body) return invalidJson();
+
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (!title) return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    if (body.description != null && typeof body.description !== 'string') {
+      return NextResponse.json({ error: 'Description must be a string' }, { status: 400 });
+    }
+
+    const user = await getCurrentUser();
+    const exceeded = await checkQuota(user, 'piles');
+    if (exceeded) return quotaExceededResponse(exceeded);
+
+    const pile = await prisma.pile.create({
+      data: {
+        title,
+        description: body.description?.trim() || null,
+        userId: user.id
+      }
+    });
+
+    return NextResponse.json(pile, { status: 201 });
+  } catch (error) {
+    console.error('Piles API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
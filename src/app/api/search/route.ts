@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import { searchDocuments } from '@/lib/search';
+
+export const runtime = 'nodejs';
+
+// Full-text search over saved documents: GET /api/search?q=...&limit=20
+// Snippets are HTML-escaped with matches wrapped in <mark>.
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const q = params.get('q')?.trim();
+    if (!q) return NextResponse.json({ error: 'Query parameter q is required' }, { status: 400 });
+
+    const limit = params.has('limit') ? Number(params.get('limit')) : 20;
+    if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+      return NextResponse.json({ error: 'limit must be an integer between 1 and 50' }, { status: 400 });
+    }
+
+    const user = await getCurrentUser();
+    const results = await searchDocuments(user.id, q, limit);
+
+    return NextResponse.json({ query: q, results });
+  } catch (error) {
+    console.error('Search API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { openShare } from '@/lib/shares';
+import { toExportSources } from '@/lib/piles';
+import { buildPileMarkdown } from '@/lib/export';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ token: string }> };
+
+// Public, unauthenticated: the combined Markdown of a shared pile
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { token } = await params;
+
+    const opened = await openShare(token);
+    if (!opened) {
+      return NextResponse.json({ error: 'This share link is invalid, expired or revoked' }, { status: 404 });
+    }
+
+    const { pile } = opened;
+    const markdown = buildPileMarkdown(toExportSources(pile), {
+      title: pile.title,
+      description: pile.description || undefined
+    });
+
+    return new NextResponse(markdown, {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Share API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { YoutubeTranscript } from '@danielxceron/youtube-transcript';
+import { fetchCaptions, formatTranscriptMarkdown, isChapterList, listCaptionTracks, parseTranscriptFormat, parseTranscriptLanguages, parseTranscriptRange } from '@/lib/extraction/youtube';
 
 // Force Node.js runtime
 export const runtime = 'nodejs';
@@ -7,41 +7,54 @@ export const runtime = 'nodejs';
 // Simpler transcript endpoint
 // Just fetches and returns the transcript directly
 
+// GET ?url= lists the video's caption tracks without fetching a transcript
+export async function GET(request: Request) {
+  const url = new URL(request.url).searchParams.get('url');
+  if (!url) {
+    return NextResponse.json({ error: 'Missing url' }, { status: 400 });
+  }
+  return NextResponse.json({ tracks: await listCaptionTracks(url) });
+}
+
 export async function POST(request: Request) {
   try {
-    const { url } = await request.json();
+    // chapters: the video's `youtube.chapters` from the metadata phase, to group the transcript by.
+    // format ('lines' | 'paragraphs') and timestamps ('each' | 'none' | seconds) set the layout.
+    // languages lists preferred caption languages, most wanted first.
+    // start/end (seconds or "1:02:03") clip it to part of the video; by default the url's t=/start=/end=.
+    const body = await request.json();
+    const { url, chapters } = body;
 
     if (!url) {
       return NextResponse.json({ error: 'Missing url' }, { status: 400 });
     }
 
-    // Fetch Transcript
-    let transcriptMarkdown = '';
-    try {
-      const transcript = await YoutubeTranscript.fetchTranscript(url);
-
-      if (!transcript || transcript.length === 0) {
-        transcriptMarkdown = `\n\n**Note:** No transcript available (captions may be disabled for this video)\n`;
-      } else {
-        transcriptMarkdown = `\n\n## Transcript\n\n`;
-        transcript.forEach((item: any) => {
-          const minutes = Math.floor(item.offset / 1000 / 60);
-          const seconds = Math.floor((item.offset / 1000) % 60).toString().padStart(2, '0');
-          transcriptMarkdown += `**${minutes}:${seconds}** - ${item.text}\n\n`;
-        });
-      }
-    } catch (e: any) {
-      console.error('Transcript fetch error:', e);
-      transcriptMarkdown = `\n\n**Error:** Could not fetch transcript - ${e.message || 'Unknown error'}\n`;
+    const format = parseTranscriptFormat(body);
+    if (typeof format === 'string') {
+      return NextResponse.json({ error: format }, { status: 400 });
+    }
+
+    const languages = parseTranscriptLanguages(body);
+    if (typeof languages === 'string') {
+      return NextResponse.json({ error: languages }, { status: 400 });
+    }
+
+    const range = parseTranscriptRange(body);
+    if (typeof range === 'string') {
+      return NextResponse.json({ error: range }, { status: 400 });
     }
 
+    const { transcript, track, tracks } = await fetchCaptions(url, languages);
+
     return NextResponse.json({
       success: true,
-      transcript: transcriptMarkdown
+      transcript: formatTranscriptMarkdown(transcript, isChapterList(chapters) ? chapters : [], format, track, range),
+      track,
+      tracks
     });
 
-  } catch (error: any) {
+  } catch (error) {
     console.error("Transcript API Error:", error);
-    return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal Server Error' }, { status: 500 });
   }
 }
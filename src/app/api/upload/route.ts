@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import { checkQuota, quotaExceededResponse } from '@/lib/quota';
+import { hashContent } from '@/lib/scrape-cache';
+import { saveIngestedResult } from '@/lib/documents';
+import { ExtractionError } from '@/lib/extraction';
+import { UPLOAD_EXTENSIONS, parseUploadedFile, uploadKind, uploadUrl } from '@/lib/extraction/files';
+
+export const runtime = 'nodejs';
+
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// POST multipart/form-data with a `file` field: PDF, HTML, DOCX, EPUB, plain text or
+// Markdown. Returns the same shape as /api/processor.
+export async function POST(request: Request) {
+  try {
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return NextResponse.json({ error: 'Expected multipart/form-data' }, { status: 400 });
+    }
+
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 });
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: `File is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` }, { status: 413 });
+    }
+
+    const kind = uploadKind(file.name, file.type);
+    if (!kind) {
+      return NextResponse.json({ error: `Unsupported file type; upload one of ${UPLOAD_EXTENSIONS.join(', ')}` }, { status: 415 });
+    }
+
+    const user = await getCurrentUser();
+    const exceeded = await checkQuota(user, 'urls');
+    if (exceeded) return quotaExceededResponse(exceeded);
+
+    const url = uploadUrl(file.name);
+    let result;
+    try {
+      result = await parseUploadedFile(kind, new Uint8Array(await file.arrayBuffer()), url);
+    } catch (extractError) {
+      if (extractError instanceof ExtractionError) {
+        return NextResponse.json({ error: extractError.message }, { status: extractError.status });
+      }
+      throw extractError;
+    }
+
+    return NextResponse.json({
+      ...(await saveIngestedResult(user, url, result)),
+      status: 'success',
+      id: 'doc-' + crypto.randomUUID(),
+      cached: false,
+      contentHash: hashContent(result.markdown)
+    });
+
+  } catch (error) {
+    console.error('Upload API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import { PLANS, PLAN_ORDER, getUsage, getUpgradeUrl } from '@/lib/quota';
+
+export const runtime = 'nodejs';
+
+// Current plan, its limits and usage, plus the plan ladder for the upgrade UI
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    const usage = await getUsage(user.id);
+
+    return NextResponse.json({
+      plan: user.plan,
+      limits: PLANS[user.plan],
+      usage,
+      plans: PLAN_ORDER.map(plan => ({
+        plan,
+        ...PLANS[plan],
+        url: plan === user.plan ? null : getUpgradeUrl(plan)
+      }))
+    });
+  } catch (error) {
+    console.error('Usage API Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
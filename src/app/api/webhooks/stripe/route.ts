@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import type Stripe from 'stripe';
+import { stripe, applyStripeEvent } from '@/lib/billing';
+
+export const runtime = 'nodejs';
+
+// Stripe billing webhook. Signature verification needs the exact raw body,
+// so the request is read as text and never parsed before constructEvent.
+export async function POST(request: Request) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set');
+    return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 });
+  }
+
+  const signature = request.headers.get('stripe-signature');
+  if (!signature) {
+    return NextResponse.json({ error: 'Missing stripe-signature header' }, { status: 400 });
+  }
+
+  const payload = await request.text();
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(payload, signature, secret);
+  } catch (error) {
+    console.warn('Stripe signature verification failed:', error);
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+  }
+
+  try {
+    const result = await applyStripeEvent(event);
+    return NextResponse.json({ received: true, result });
+  } catch (error) {
+    // Non-2xx makes Stripe retry; the event was not recorded, so the retry is applied fresh
+    console.error(`Stripe event ${event.id} (${event.type}) failed:`, error);
+    return NextResponse.json({ error: 'Webhook handler failed' }, { status: 500 });
+  }
+}
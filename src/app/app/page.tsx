@@ -1,7 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-import { Clipboard, FileDown, Loader2, FileText, Code, Eye, Plus, Trash2, Play, CheckCircle2, XCircle } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Clipboard, FileDown, Loader2, FileText, Code, Eye, Plus, Trash2, Play, CheckCircle2, XCircle, Clock, RefreshCw } from 'lucide-react';
 
 interface ParseResult {
   title: string;
@@ -12,17 +12,89 @@ interface ParseResult {
 interface DocItem {
   id: string;
   url: string;
-  status: 'pending' | 'processing' | 'success' | 'error';
+  status: 'pending' | 'processing' | 'success' | 'error' | 'expired';
   result?: ParseResult;
   error?: string;
   createdAt?: string;
+  // Set for documents saved in the database; re-fetched content is written back to it
+  documentId?: string;
+  // History rows arrive without their markdown; it is fetched on first select
+  loaded?: boolean;
 }
 
+// Row shape returned by GET /api/documents
+interface HistoryRow {
+  id: string;
+  url: string;
+  title: string | null;
+  siteName: string | null;
+  createdAt: string;
+  contentExpired: boolean;
+}
+
+const toDocItem = (row: HistoryRow): DocItem => ({
+  id: row.id,
+  url: row.url,
+  status: row.contentExpired ? 'expired' : 'success',
+  result: { title: row.title || row.url, markdown: '', siteName: row.siteName || '' },
+  createdAt: row.createdAt,
+  documentId: row.id,
+  loaded: false
+});
+
 export default function Dashboard() {
   const [inputUrls, setInputUrls] = useState('');
   const [documents, setDocuments] = useState<DocItem[]>([]);
   const [selectedDocId, setSelectedDocId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'markdown' | 'preview'>('markdown');
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
+  // Load saved history, newest first
+  const loadHistory = async (cursor?: string) => {
+    setLoadingHistory(true);
+    try {
+      const res = await fetch(`/api/documents?limit=30${cursor ? `&cursor=${cursor}` : ''}`);
+      if (!res.ok) throw new Error(`Server Error (${res.status})`);
+      const data: { documents: HistoryRow[]; nextCursor: string | null } = await res.json();
+
+      setDocuments(prev => {
+        const known = new Set(prev.map(d => d.documentId));
+        return [...prev, ...data.documents.filter(row => !known.has(row.id)).map(toDocItem)];
+      });
+      setHistoryCursor(data.nextCursor);
+    } catch (err) {
+      console.error('Failed to load history:', err);
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  // Select a document, fetching the stored markdown for history rows on first view
+  const selectDoc = async (doc: DocItem) => {
+    setSelectedDocId(doc.id);
+    if (!doc.documentId || doc.loaded || doc.status !== 'success') return;
+
+    try {
+      const res = await fetch(`/api/documents/${doc.documentId}`);
+      if (!res.ok) throw new Error(`Server Error (${res.status})`);
+      const data = await res.json();
+
+      setDocuments(prev => prev.map(d =>
+        d.id === doc.id
+          ? data.contentExpired
+            ? { ...d, status: 'expired', loaded: true }
+            : { ...d, loaded: true, result: { title: data.title || d.url, markdown: data.markdown || '', siteName: data.siteName || '' } }
+          : d
+      ));
+    } catch (err) {
+      console.error('Failed to load document:', err);
+    }
+  };
 
   // Parse URLs
   const handleCompile = async () => {
@@ -52,7 +124,8 @@ export default function Dashboard() {
       const res = await fetch('/api/processor', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: doc.url }),
+        // Re-fetching saved content must bypass the server cache
+        body: JSON.stringify({ url: doc.url, documentId: doc.documentId, force: Boolean(doc.documentId) }),
       });
 
       // SAFE JSON PARSING
@@ -68,10 +141,25 @@ export default function Dashboard() {
         throw new Error(data.error || `Server Error (${res.status})`);
       }
 
+      // Re-fetching an expired saved document: store the fresh content and restart its retention clock.
+      // Anything new was saved to history by the processor.
+      const documentId = doc.documentId || data.documentId;
+      if (doc.documentId) {
+        const saveRes = await fetch(`/api/documents/${doc.documentId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ markdown: data.markdown, title: data.title, siteName: data.siteName }),
+        });
+        if (!saveRes.ok) {
+          const saveError = await saveRes.json().catch(() => ({}));
+          throw new Error(saveError.error || `Could not save refreshed content (${saveRes.status})`);
+        }
+      }
+
       // Update success
       setDocuments(prev => prev.map(d =>
         d.id === doc.id
-          ? { ...d, id: data.id || d.id, status: 'success', result: data }
+          ? { ...d, id: d.documentId ? d.id : (data.id || d.id), documentId, loaded: true, status: 'success', result: data }
           : d
       ));
 
@@ -90,10 +178,15 @@ export default function Dashboard() {
     setDocuments(prev => prev.map(d => d.id === id ? { ...d, status } : d));
   };
 
-  const removeDoc = (id: string, e: React.MouseEvent) => {
+  const removeDoc = (doc: DocItem, e: React.MouseEvent) => {
     e.stopPropagation();
-    setDocuments(prev => prev.filter(d => d.id !== id));
-    if (selectedDocId === id) setSelectedDocId(null);
+    setDocuments(prev => prev.filter(d => d.id !== doc.id));
+    if (selectedDocId === doc.id) setSelectedDocId(null);
+
+    if (doc.documentId) {
+      fetch(`/api/documents/${doc.documentId}`, { method: 'DELETE' })
+        .catch(err => console.error('Failed to delete document:', err));
+    }
   };
 
   const copyToClipboard = async (text: string) => {
@@ -148,7 +241,7 @@ export default function Dashboard() {
           {documents.map(doc => (
             <div
               key={doc.id}
-              onClick={() => setSelectedDocId(doc.id)}
+              onClick={() => selectDoc(doc)}
               className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors ${
                 selectedDocId === doc.id
                   ? 'bg-zinc-800 border-zinc-700'
@@ -159,6 +252,7 @@ export default function Dashboard() {
                 {doc.status === 'processing' && <Loader2 className="w-4 h-4 text-blue-500 animate-spin shrink-0" />}
                 {doc.status === 'success' && <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />}
                 {doc.status === 'error' && <XCircle className="w-4 h-4 text-red-500 shrink-0" />}
+                {doc.status === 'expired' && <Clock className="w-4 h-4 text-amber-500 shrink-0" />}
                 {doc.status === 'pending' && <div className="w-4 h-4 rounded-full border-2 border-zinc-600 shrink-0" />}
 
                 <div className="flex flex-col min-w-0">
@@ -172,13 +266,25 @@ export default function Dashboard() {
               </div>
 
               <button
-                onClick={(e) => removeDoc(doc.id, e)}
+                onClick={(e) => removeDoc(doc, e)}
                 className="opacity-0 group-hover:opacity-100 p-1 hover:bg-zinc-700 rounded text-zinc-500 hover:text-red-400 transition"
               >
                 <Trash2 className="w-4 h-4" />
               </button>
             </div>
           ))}
+
+          {loadingHistory && (
+            <div className="flex justify-center py-4"><Loader2 className="w-4 h-4 text-zinc-600 animate-spin" /></div>
+          )}
+          {!loadingHistory && historyCursor && (
+            <button
+              onClick={() => loadHistory(historyCursor)}
+              className="w-full py-2 text-xs text-zinc-500 hover:text-zinc-300 transition"
+            >
+              Load older documents
+            </button>
+          )}
         </div>
       </aside>
 
@@ -226,6 +332,17 @@ export default function Dashboard() {
                    <XCircle className="w-8 h-8" />
                    <p className="max-w-md">{selectedDoc.error}</p>
                 </div>
+             ) : selectedDoc?.status === 'expired' ? (
+                <div className="flex flex-col items-center gap-3 text-center px-4">
+                   <Clock className="w-8 h-8 text-amber-500" />
+                   <p className="max-w-md">Content expired — stored context is kept for 30 days.</p>
+                   <button
+                     onClick={() => processDoc(selectedDoc)}
+                     className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+                   >
+                     <RefreshCw className="w-4 h-4" /> Re-fetch
+                   </button>
+                </div>
              ) : (
                 <><div className="w-16 h-16 rounded-2xl bg-zinc-900 flex items-center justify-center border border-zinc-800"><Plus className="w-8 h-8 text-zinc-700" /></div><p>Select a document or compile a new URL</p></>
              )}
@@ -1,32 +1,9 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Clipboard, FileDown, Loader2, FileText, Code, Eye, Plus, Trash2, Play, CheckCircle2, XCircle, ChevronDown } from 'lucide-react';
-
-interface ParseResult {
-  id?: string;
-  title: string;
-  content: string; // HTML
-  textContent: string;
-  markdown: string;
-  siteName: string;
-  byline?: string;
-  excerpt?: string;
-  needsTranscript?: boolean;
-  // Enhanced metadata fields
-  sourceUrl?: string;
-  scrapedAt?: string;
-  wordCount?: number;
-  language?: string;
-  headings?: { level: number; text: string }[];
-  links?: { text: string; href: string }[];
-  images?: { src: string; alt: string }[];
-  wikipedia?: {
-    infobox?: Record<string, string>;
-    categories?: string[];
-    references?: string[];
-  };
-}
+import { Clipboard, FileDown, Loader2, FileText, Code, Eye, Plus, Trash2, Play, CheckCircle2, XCircle, ChevronDown, Layers, FileArchive, Gauge, ArrowUpCircle, Search, X, Network, Upload } from 'lucide-react';
+import type { ParseResult } from '@/lib/types';
+import { ExportSource, buildChapterMarkdown, buildDocumentJson, buildDocumentMarkdown, buildPileJson, buildPileMarkdown, buildPileXml, buildPileZip, formatTimestamp, toFilename } from '@/lib/export';
 
 interface DocItem {
   id: string;
@@ -34,6 +11,65 @@ interface DocItem {
   status: 'pending' | 'processing' | 'processing-transcript' | 'success' | 'error';
   result?: ParseResult;
   error?: string;
+  // Title of the saved pile a playlist video was grouped into
+  pile?: string;
+}
+
+interface PlanInfo {
+  plan: string;
+  name: string;
+  priceMonthly: number;
+  maxPiles: number | null;
+  maxUrls: number | null;
+  url: string | null;
+}
+
+interface UsageInfo {
+  plan: string;
+  limits: PlanInfo;
+  usage: { piles: number; urls: number };
+  plans: PlanInfo[];
+}
+
+// File types /api/upload converts; the extension decides
+const UPLOAD_ACCEPT = '.pdf,.html,.htm,.xhtml,.docx,.epub,.txt,.text,.md,.markdown,.mdx';
+
+// Body of a 403 from the quota service
+interface QuotaError {
+  error: string;
+  resource: 'piles' | 'urls';
+  limit: number;
+  usage: { piles: number; urls: number };
+  upgrade: PlanInfo | null;
+}
+
+// One hit from GET /api/search; snippet is escaped HTML with <mark> around matches
+interface SearchHit {
+  id: string;
+  url: string;
+  title: string | null;
+  siteName: string | null;
+  snippet: string;
+  piles: { id: string; title: string }[];
+}
+
+function UsageMeter({ label, used, max }: { label: string; used: number; max: number | null }) {
+  const percent = max === null ? 0 : Math.min(100, (used / max) * 100);
+  const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-blue-600';
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-zinc-500">
+        <span>{label}</span>
+        <span>{used} / {max === null ? '∞' : max}</span>
+      </div>
+      {max !== null && (
+        <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+          <div className={`h-full ${color} transition-all`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function Home() {
@@ -43,13 +79,118 @@ export default function Home() {
   const [activeTab, setActiveTab] = useState<'markdown' | 'text' | 'preview'>('markdown');
   const [exportMenuOpen, setExportMenuOpen] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement>(null);
+  const [pileExportMenuOpen, setPileExportMenuOpen] = useState(false);
+  const pileExportMenuRef = useRef<HTMLDivElement>(null);
+  const [usage, setUsage] = useState<UsageInfo | null>(null);
+  const [quotaError, setQuotaError] = useState<QuotaError | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [crawling, setCrawling] = useState(false);
+  const [crawlDepth, setCrawlDepth] = useState('');
+  const [crawlMaxPages, setCrawlMaxPages] = useState('');
+  const [crawlPathPrefix, setCrawlPathPrefix] = useState('');
+  const [crawlSitemap, setCrawlSitemap] = useState(false);
+  const [feedSince, setFeedSince] = useState('');
+  const [feedMaxItems, setFeedMaxItems] = useState('');
+  const [dragActive, setDragActive] = useState(false);
+  const [transcriptFormat, setTranscriptFormat] = useState<'lines' | 'paragraphs'>('paragraphs');
+  // 'each', 'none' or an interval in seconds
+  const [transcriptTimestamps, setTranscriptTimestamps] = useState('each');
+  // Preferred caption languages, comma-separated; empty means the video's own language
+  const [transcriptLanguages, setTranscriptLanguages] = useState('');
+  // Chapter indexes ticked in the chapter export picker; null while it is closed
+  const [chapterSelection, setChapterSelection] = useState<number[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Debounced full-text search over saved documents
+  useEffect(() => {
+    const q = searchQuery.trim();
+    if (!q) return;
+
+    const timeoutId = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}`);
+        const data = await res.json();
+        setSearchResults(res.ok ? data.results : []);
+      } catch (err) {
+        console.error('Search failed', err);
+        setSearchResults([]);
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setSearchResults([]);
+  };
+
+  // Bring a saved document back into the pile without re-scraping it (unless its content expired)
+  const openSearchHit = async (hit: SearchHit) => {
+    clearSearch();
+
+    const existing = documents.find(d => d.url === hit.url && d.status === 'success');
+    if (existing) {
+      setSelectedDocId(existing.id);
+      return;
+    }
+
+    const doc: DocItem = { id: crypto.randomUUID(), url: hit.url, status: 'processing' };
+    setDocuments(prev => [...prev, doc]);
+    setSelectedDocId(doc.id);
+
+    try {
+      const res = await fetch(`/api/documents/${hit.id}`);
+      const saved = await res.json();
+
+      if (!res.ok || saved.contentExpired || !saved.markdown) {
+        await processDoc(doc);
+        return;
+      }
+
+      const result: ParseResult = {
+        id: saved.id,
+        title: saved.title || hit.url,
+        markdown: saved.markdown,
+        textContent: saved.markdown,
+        content: '',
+        siteName: saved.siteName || '',
+        sourceUrl: saved.url,
+        scrapedAt: saved.createdAt
+      };
+      setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, status: 'success', result } : d));
+    } catch (err) {
+      console.error('Failed to open search result', err);
+      await processDoc(doc);
+    }
+  };
+
+  const loadUsage = async () => {
+    try {
+      const res = await fetch('/api/usage');
+      if (res.ok) setUsage(await res.json());
+    } catch (err) {
+      console.error('Failed to load usage', err);
+    }
+  };
 
-  // Close export menu when clicking outside
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  // Close export menus when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
         setExportMenuOpen(false);
       }
+      if (pileExportMenuRef.current && !pileExportMenuRef.current.contains(event.target as Node)) {
+        setPileExportMenuOpen(false);
+      }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
@@ -78,18 +219,200 @@ export default function Home() {
     for (const doc of newDocs) {
       await processDoc(doc);
     }
+    loadUsage();
+  };
+
+  // Convert one local file through /api/upload; it joins the pile like a scraped page
+  const uploadDoc = async (doc: DocItem, file: File) => {
+    updateDocStatus(doc.id, 'processing');
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const res = await fetch('/api/upload', { method: 'POST', body: form });
+      const data = await res.json();
+
+      if (res.status === 403 && data.code === 'QUOTA_EXCEEDED') {
+        setQuotaError(data as QuotaError);
+      }
+      if (!res.ok) throw new Error(data.error || 'Upload failed');
+
+      setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, status: 'success', result: data as ParseResult } : d));
+      setSelectedDocId(curr => curr === null ? doc.id : curr);
+    } catch (err) {
+      setDocuments(prev => prev.map(d =>
+        d.id === doc.id ? { ...d, status: 'error', error: err instanceof Error ? err.message : 'Upload failed' } : d
+      ));
+    }
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const uploads = Array.from(files).map(file => ({
+      file,
+      doc: { id: crypto.randomUUID(), url: `file:///${encodeURIComponent(file.name)}`, status: 'pending' } as DocItem
+    }));
+    setDocuments(prev => [...prev, ...uploads.map(upload => upload.doc)]);
+
+    for (const { doc, file } of uploads) {
+      await uploadDoc(doc, file);
+    }
+    loadUsage();
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  // Crawl the docs section under the first URL into a new pile, then list every page
+  const handleCrawl = async () => {
+    const url = inputUrls.split('\n').map(u => u.trim()).find(u => u.length > 0);
+    if (!url) return;
+
+    setCrawling(true);
+    try {
+      const res = await fetch('/api/crawl', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          url,
+          ...(crawlDepth ? { maxDepth: Number(crawlDepth) } : {}),
+          ...(crawlMaxPages ? { maxPages: Number(crawlMaxPages) } : {}),
+          ...(crawlPathPrefix.trim() ? { pathPrefix: crawlPathPrefix.trim() } : {}),
+          ...(crawlSitemap ? { sitemap: true } : {})
+        })
+      });
+      const data = await res.json();
+
+      if (res.status === 403 && data.code === 'QUOTA_EXCEEDED') {
+        setQuotaError(data as QuotaError);
+        return;
+      }
+      if (!res.ok) throw new Error(data.error || 'Crawl failed');
+
+      const crawled: DocItem[] = data.pages.map((page: { url: string; result: ParseResult }) => ({
+        id: crypto.randomUUID(),
+        url: page.url,
+        status: 'success',
+        result: page.result
+      }));
+      setDocuments(prev => [...prev, ...crawled]);
+      setSelectedDocId(curr => curr ?? crawled[0]?.id ?? null);
+      setInputUrls('');
+    } catch (err) {
+      setDocuments(prev => [...prev, {
+        id: crypto.randomUUID(),
+        url,
+        status: 'error',
+        error: err instanceof Error ? err.message : 'Crawl failed'
+      }]);
+    } finally {
+      setCrawling(false);
+      loadUsage();
+    }
+  };
+
+  // Replace a feed's list item with one item per entry. Entries the feed carried in
+  // full are done already; the rest go through the processor like any other URL.
+  const expandFeed = async (feedDoc: DocItem, entries: NonNullable<ParseResult['feed']>['entries']) => {
+    if (entries.length === 0) {
+      setDocuments(prev => prev.map(d =>
+        d.id === feedDoc.id ? { ...d, status: 'error', error: 'No feed entries match the filters' } : d
+      ));
+      return;
+    }
+
+    const entryDocs: DocItem[] = entries.map(entry => ({
+      id: crypto.randomUUID(),
+      url: entry.url,
+      status: entry.result ? 'success' : 'pending',
+      result: entry.result
+    }));
+    setDocuments(prev => prev.flatMap(d => d.id === feedDoc.id ? entryDocs : [d]));
+    setSelectedDocId(curr => curr === null || curr === feedDoc.id ? entryDocs[0].id : curr);
+
+    for (const entryDoc of entryDocs) {
+      if (entryDoc.status === 'pending') await processDoc(entryDoc, true);
+    }
+  };
+
+  // Add one finished video to the playlist's pile; false once the plan's URL limit is hit.
+  // The processor has saved it already, unless that failed.
+  const addToPile = async (pileId: string, url: string, result: ParseResult) => {
+    const res = await fetch(`/api/piles/${pileId}/items`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(result.documentId
+        ? { documentId: result.documentId }
+        : { url, title: result.title, siteName: result.siteName, markdown: result.markdown })
+    });
+    if (res.status === 403) {
+      const data = await res.json();
+      if (data.code === 'QUOTA_EXCEEDED') setQuotaError(data as QuotaError);
+      return false;
+    }
+    return res.ok;
+  };
+
+  // Replace a playlist's list item with one item per video. Each video goes through the
+  // usual metadata + transcript flow and is saved, in playlist order, to a new pile
+  // named after the playlist.
+  const expandPlaylist = async (listDoc: DocItem, playlist: NonNullable<ParseResult['playlist']>) => {
+    if (playlist.entries.length === 0) {
+      setDocuments(prev => prev.map(d =>
+        d.id === listDoc.id ? { ...d, status: 'error', error: 'No videos match the filters' } : d
+      ));
+      return;
+    }
+
+    let pileId: string | null = null;
+    try {
+      const res = await fetch('/api/piles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: playlist.title, description: `YouTube ${playlist.kind}: ${playlist.url}` })
+      });
+      const data = await res.json();
+      if (res.status === 403 && data.code === 'QUOTA_EXCEEDED') setQuotaError(data as QuotaError);
+      if (res.ok) pileId = data.id;
+    } catch (err) {
+      console.error('Failed to create pile', err);
+    }
+
+    // Without a pile (plan limit, network) the videos still join the working list
+    const videoDocs: DocItem[] = playlist.entries.map(entry => ({
+      id: crypto.randomUUID(),
+      url: entry.url,
+      status: 'pending',
+      ...(pileId ? { pile: playlist.title } : {})
+    }));
+    setDocuments(prev => prev.flatMap(d => d.id === listDoc.id ? videoDocs : [d]));
+    setSelectedDocId(curr => curr === null || curr === listDoc.id ? videoDocs[0].id : curr);
+
+    for (const videoDoc of videoDocs) {
+      const result = await processDoc(videoDoc, true);
+      if (result && pileId && !(await addToPile(pileId, videoDoc.url, result))) pileId = null;
+    }
   };
 
-  const processDoc = async (doc: DocItem) => {
+  // Resolves to the finished result, or null when the URL failed or expanded into others
+  const processDoc = async (doc: DocItem, isFeedEntry = false): Promise<ParseResult | null> => {
     // Update status to processing
     updateDocStatus(doc.id, 'processing');
 
     try {
+      // Feed filters only apply to the feed or playlist URL itself, not the items it lists
+      const feedFilters = isFeedEntry ? {} : {
+        ...(feedSince ? { since: feedSince } : {}),
+        ...(feedMaxItems ? { maxItems: Number(feedMaxItems) } : {})
+      };
+
       // Step 1: Initial Processing (Metadata / Web Scrape)
       const res = await fetch('/api/processor', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: doc.url }),
+        body: JSON.stringify({ url: doc.url, ...feedFilters }),
       });
 
       // Safe JSON parsing to prevent "Unexpected end of JSON" crash
@@ -101,10 +424,23 @@ export default function Home() {
         throw new Error(`Server Error: Response was not valid JSON (${res.status}). Likely a timeout.`);
       }
 
+      if (res.status === 403 && (data as unknown as { code?: string }).code === 'QUOTA_EXCEEDED') {
+        setQuotaError(data as unknown as QuotaError);
+      }
+
       if (!res.ok) {
         throw new Error((data as any).error || 'Failed to fetch');
       }
 
+      if (data.feed) {
+        await expandFeed(doc, data.feed.entries);
+        return null;
+      }
+      if (data.playlist) {
+        await expandPlaylist(doc, data.playlist);
+        return null;
+      }
+
       // If it needs a transcript (YouTube), we enter phase 2
       if (data.needsTranscript) {
          // Update with partial result immediately so user sees Title/Desc
@@ -121,7 +457,13 @@ export default function Home() {
          const transcriptRes = await fetch('/api/transcript', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ url: doc.url }),
+            body: JSON.stringify({
+              url: doc.url,
+              chapters: data.youtube?.chapters,
+              format: transcriptFormat,
+              timestamps: /^\d+$/.test(transcriptTimestamps) ? Number(transcriptTimestamps) : transcriptTimestamps,
+              languages: transcriptLanguages
+            }),
          });
 
          const transcriptData = await transcriptRes.json();
@@ -129,20 +471,31 @@ export default function Home() {
          if (transcriptData.success && transcriptData.transcript) {
             // Update with full transcript - append to existing markdown
             const fullMarkdown = data.markdown.replace('_Fetching transcript..._', '') + transcriptData.transcript;
+            const fullResult: ParseResult = {
+                ...data,
+                youtube: data.youtube && {
+                  ...data.youtube,
+                  captionTrack: transcriptData.track || undefined,
+                  captionTracks: transcriptData.tracks
+                },
+                markdown: fullMarkdown,
+                textContent: data.textContent + "\n\n(Transcript added)",
+                content: data.content + "<p><em>Transcript added. Switch to Markdown view to see timestamps.</em></p>"
+            };
              setDocuments(prev => prev.map(d =>
                 d.id === doc.id
-                  ? {
-                      ...d,
-                      status: 'success',
-                      result: {
-                          ...data,
-                          markdown: fullMarkdown,
-                          textContent: data.textContent + "\n\n(Transcript added)",
-                          content: data.content + "<p><em>Transcript added. Switch to Markdown view to see timestamps.</em></p>"
-                      }
-                    }
+                  ? { ...d, status: 'success', result: fullResult }
                   : d
               ));
+             // The processor saved the video before its transcript existed
+             if (data.documentId) {
+               await fetch(`/api/documents/${data.documentId}`, {
+                 method: 'PATCH',
+                 headers: { 'Content-Type': 'application/json' },
+                 body: JSON.stringify({ markdown: fullMarkdown })
+               }).catch(err => console.error('Failed to save transcript', err));
+             }
+             return fullResult;
          } else {
              // Failed to get transcript, but we have metadata
              setDocuments(prev => prev.map(d =>
@@ -150,6 +503,7 @@ export default function Home() {
                   ? { ...d, status: 'success', result: data }
                   : d
               ));
+             return data;
          }
 
       } else {
@@ -162,6 +516,7 @@ export default function Home() {
 
           // Auto-select if it's the first one
           setSelectedDocId(curr => curr === null ? doc.id : curr);
+          return data;
       }
 
     } catch (err: any) {
@@ -171,6 +526,7 @@ export default function Home() {
           ? { ...d, status: 'error', error: err.message }
           : d
       ));
+      return null;
     }
   };
 
@@ -193,7 +549,7 @@ export default function Home() {
     }
   };
 
-  const downloadFile = (content: string, filename: string, type: string) => {
+  const downloadFile = (content: BlobPart, filename: string, type: string) => {
     const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -208,44 +564,69 @@ export default function Home() {
   const exportAsJson = (doc: DocItem) => {
     if (!doc.result) return;
 
-    const exportData = {
-      exportVersion: '1.0',
-      exportedAt: new Date().toISOString(),
-      document: {
-        id: doc.result.id || doc.id,
-        sourceUrl: doc.result.sourceUrl || doc.url,
-        title: doc.result.title,
-        siteName: doc.result.siteName,
-        scrapedAt: doc.result.scrapedAt || new Date().toISOString(),
-        content: {
-          markdown: doc.result.markdown,
-          plainText: doc.result.textContent,
-          wordCount: doc.result.wordCount || doc.result.textContent.split(/\s+/).filter(w => w.length > 0).length
-        },
-        structure: {
-          headings: doc.result.headings || [],
-          links: doc.result.links || [],
-          images: doc.result.images || []
-        },
-        ...(doc.result.language ? { language: doc.result.language } : {}),
-        ...(doc.result.wikipedia ? { wikipedia: doc.result.wikipedia } : {})
-      }
-    };
-
-    const filename = `${doc.result.title.replace(/[^a-z0-9]/gi, '_').substring(0, 50)}.json`;
-    downloadFile(JSON.stringify(exportData, null, 2), filename, 'application/json');
+    const filename = toFilename(doc.result.title, 'json');
+    downloadFile(buildDocumentJson({ id: doc.id, url: doc.url, result: doc.result }), filename, 'application/json');
     setExportMenuOpen(false);
   };
 
-  const exportAsMarkdown = (doc: DocItem) => {
+  const exportAsMarkdown = (doc: DocItem, frontMatter = false) => {
     if (!doc.result) return;
-    const filename = `${doc.result.title.replace(/[^a-z0-9]/gi, '_').substring(0, 50)}.md`;
-    downloadFile(doc.result.markdown, filename, 'text/markdown');
+    const filename = toFilename(doc.result.title, 'md');
+    downloadFile(buildDocumentMarkdown({ id: doc.id, url: doc.url, result: doc.result }, { frontMatter }), filename, 'text/markdown');
     setExportMenuOpen(false);
   };
 
+  const openChapterPicker = (doc: DocItem) => {
+    setChapterSelection(doc.result?.youtube?.chapters.map((_, i) => i) ?? null);
+    setExportMenuOpen(false);
+  };
+
+  const toggleChapter = (index: number) => {
+    setChapterSelection(prev => prev && (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b)));
+  };
+
+  const exportChapters = (doc: DocItem) => {
+    if (!doc.result || !chapterSelection?.length) return;
+    const filename = toFilename(`${doc.result.title} chapters`, 'md');
+    downloadFile(buildChapterMarkdown({ id: doc.id, url: doc.url, result: doc.result }, chapterSelection), filename, 'text/markdown');
+    setChapterSelection(null);
+  };
+
+  // --- Whole-pile export (every successful document, in pile order) ---
+
+  const getPileSources = (): ExportSource[] =>
+    documents
+      .filter(d => d.status === 'success' && d.result)
+      .map(d => ({ id: d.id, url: d.url, result: d.result! }));
+
+  const exportPile = async (format: 'markdown' | 'xml' | 'json' | 'zip') => {
+    const sources = getPileSources();
+    if (sources.length === 0) return;
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'markdown') {
+      downloadFile(buildPileMarkdown(sources), `context-pile-${stamp}.md`, 'text/markdown');
+    } else if (format === 'xml') {
+      downloadFile(buildPileXml(sources), `context-pile-${stamp}.xml`, 'application/xml');
+    } else if (format === 'json') {
+      downloadFile(buildPileJson(sources), `context-pile-${stamp}.json`, 'application/json');
+    } else {
+      const zip = await buildPileZip(sources);
+      downloadFile(zip, `context-pile-${stamp}.zip`, 'application/zip');
+    }
+    setPileExportMenuOpen(false);
+  };
+
+  const copyPile = async () => {
+    const sources = getPileSources();
+    if (sources.length === 0) return;
+    await copyToClipboard(buildPileXml(sources));
+    setPileExportMenuOpen(false);
+  };
+
   // Get selected document
   const selectedDoc = documents.find(d => d.id === selectedDocId);
+  const successCount = documents.filter(d => d.status === 'success').length;
 
   return (
     <div className="flex h-screen bg-[#0a0a0a] text-zinc-100 font-sans overflow-hidden">
@@ -267,54 +648,316 @@ export default function Home() {
             value={inputUrls}
             onChange={(e) => setInputUrls(e.target.value)}
           />
-          <button
-            onClick={handleCompile}
-            disabled={!inputUrls.trim()}
-            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium py-2 rounded-lg transition-colors"
+          {/* Local files: drop them here or browse */}
+          <div
+            onDragOver={(e) => { e.preventDefault(); setDragActive(true); }}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className={`flex items-center justify-center gap-2 border border-dashed rounded-lg px-3 py-2 text-xs cursor-pointer transition-colors ${
+              dragActive ? 'border-blue-500 bg-blue-500/10 text-blue-300' : 'border-zinc-700 text-zinc-500 hover:border-zinc-500 hover:text-zinc-300'
+            }`}
+            title="PDF, HTML, DOCX, EPUB, TXT or Markdown"
           >
-            <Play className="w-4 h-4" /> Compile
-          </button>
+            <Upload className="w-3.5 h-3.5" /> Drop files or browse
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={UPLOAD_ACCEPT}
+            className="hidden"
+            onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+          />
+          {/* Filters used when a URL turns out to be an RSS/Atom feed or a YouTube playlist or channel */}
+          <div className="flex items-center gap-2 text-xs text-zinc-500">
+            <span className="shrink-0">Feeds/playlists:</span>
+            <input
+              type="date"
+              value={feedSince}
+              onChange={(e) => setFeedSince(e.target.value)}
+              title="Only entries or videos published on or after this date"
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-300 outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={feedMaxItems}
+              onChange={(e) => setFeedMaxItems(e.target.value)}
+              placeholder="Max 20"
+              title="Entries to import: newest 20 of a feed, first 50 videos of a playlist"
+              className="w-20 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-300 placeholder:text-zinc-600 outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          {/* Layout of YouTube transcripts */}
+          <div className="flex items-center gap-2 text-xs text-zinc-500">
+            <span className="shrink-0">Transcripts:</span>
+            <select
+              value={transcriptFormat}
+              onChange={(e) => setTranscriptFormat(e.target.value as 'lines' | 'paragraphs')}
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-300 outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="paragraphs">Paragraphs</option>
+              <option value="lines">Caption lines</option>
+            </select>
+            <select
+              value={transcriptTimestamps}
+              onChange={(e) => setTranscriptTimestamps(e.target.value)}
+              title="Timestamps"
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-300 outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="each">Time: each</option>
+              <option value="30">Every 30s</option>
+              <option value="60">Every 1 min</option>
+              <option value="300">Every 5 min</option>
+              <option value="none">No times</option>
+            </select>
+            <input
+              type="text"
+              value={transcriptLanguages}
+              onChange={(e) => setTranscriptLanguages(e.target.value)}
+              placeholder="Lang: de, ja"
+              title="Preferred caption languages, in order"
+              className="w-24 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-300 placeholder:text-zinc-600 outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          {/* Scope of "Crawl docs" */}
+          <div className="flex items-center gap-2 text-xs text-zinc-500">
+            <span className="shrink-0">Crawl:</span>
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={crawlDepth}
+              onChange={(e) => setCrawlDepth(e.target.value)}
+              placeholder="Depth 2"
+              title="Links to follow away from the start page"
+              className="w-20 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-300 placeholder:text-zinc-600 outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={crawlMaxPages}
+              onChange={(e) => setCrawlMaxPages(e.target.value)}
+              placeholder="Max 25"
+              title="Pages to save"
+              className="w-20 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-300 placeholder:text-zinc-600 outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={crawlPathPrefix}
+              onChange={(e) => setCrawlPathPrefix(e.target.value)}
+              placeholder="/docs"
+              title="Only pages under this path; defaults to the start URL's path"
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-300 placeholder:text-zinc-600 outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <label className="flex items-center gap-1 shrink-0" title="Take the page list from sitemap.xml instead of following links">
+              <input type="checkbox" checked={crawlSitemap} onChange={(e) => setCrawlSitemap(e.target.checked)} />
+              Sitemap
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCompile}
+              disabled={!inputUrls.trim() || crawling}
+              className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium py-2 rounded-lg transition-colors"
+            >
+              <Play className="w-4 h-4" /> Compile
+            </button>
+            <button
+              onClick={handleCrawl}
+              disabled={!inputUrls.trim() || crawling}
+              title="Follow links under the first URL and save the whole section as a pile"
+              className="flex items-center justify-center gap-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed text-zinc-200 text-sm font-medium px-3 py-2 rounded-lg transition-colors"
+            >
+              {crawling ? <Loader2 className="w-4 h-4 animate-spin" /> : <Network className="w-4 h-4" />} Crawl docs
+            </button>
+          </div>
         </div>
 
-        {/* Document List */}
-        <div className="flex-1 overflow-y-auto p-2 space-y-1">
-          {documents.map(doc => (
-            <div
-              key={doc.id}
-              onClick={() => setSelectedDocId(doc.id)}
-              className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors ${
-                selectedDocId === doc.id
-                  ? 'bg-zinc-800 border-zinc-700'
-                  : 'hover:bg-zinc-900 border border-transparent'
-              }`}
-            >
-              <div className="flex items-center gap-3 overflow-hidden">
-                {doc.status === 'processing' && <Loader2 className="w-4 h-4 text-blue-500 animate-spin shrink-0" />}
-                {doc.status === 'processing-transcript' && <Loader2 className="w-4 h-4 text-purple-500 animate-spin shrink-0" />}
-                {doc.status === 'success' && <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />}
-                {doc.status === 'error' && <XCircle className="w-4 h-4 text-red-500 shrink-0" />}
-                {doc.status === 'pending' && <div className="w-4 h-4 rounded-full border-2 border-zinc-600 shrink-0" />}
-
-                <div className="flex flex-col min-w-0">
-                  <span className={`text-sm font-medium truncate ${selectedDocId === doc.id ? 'text-white' : 'text-zinc-400 group-hover:text-zinc-200'}`}>
-                    {doc.result?.title || doc.url}
-                  </span>
-                  <span className="text-xs text-zinc-600 truncate">{new URL(doc.url).hostname}</span>
+        {/* Plan Usage */}
+        {usage && (
+          <div className="px-4 py-3 border-b border-zinc-800 space-y-2">
+            <div className="flex items-center gap-2 text-xs font-medium text-zinc-400">
+              <Gauge className="w-3.5 h-3.5" /> {usage.limits.name} plan
+            </div>
+            <UsageMeter label="Saved URLs" used={usage.usage.urls} max={usage.limits.maxUrls} />
+            <UsageMeter label="Piles" used={usage.usage.piles} max={usage.limits.maxPiles} />
+          </div>
+        )}
+
+        {/* Upgrade prompt when a limit is hit */}
+        {quotaError && (
+          <div className="m-4 mb-0 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 space-y-2">
+            <p className="text-xs text-amber-300">{quotaError.error}</p>
+            {quotaError.upgrade && (
+              <>
+                <p className="text-xs text-zinc-400">
+                  {quotaError.upgrade.name} (${quotaError.upgrade.priceMonthly}/mo) includes{' '}
+                  {quotaError.upgrade.maxPiles === null ? 'unlimited' : quotaError.upgrade.maxPiles} piles and{' '}
+                  {quotaError.upgrade.maxUrls === null ? 'unlimited' : quotaError.upgrade.maxUrls} URLs.
+                </p>
+                {quotaError.upgrade.url && (
+                  <a
+                    href={quotaError.upgrade.url}
+                    className="w-full flex items-center justify-center gap-2 bg-amber-500 hover:bg-amber-600 text-black text-xs font-medium py-1.5 rounded-md transition-colors"
+                  >
+                    <ArrowUpCircle className="w-3.5 h-3.5" /> Upgrade to {quotaError.upgrade.name}
+                  </a>
+                )}
+              </>
+            )}
+            <button onClick={() => setQuotaError(null)} className="text-xs text-zinc-500 hover:text-zinc-300">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Search saved context */}
+        <div className="px-4 pt-3">
+          <div className="relative">
+            <Search className="w-3.5 h-3.5 text-zinc-600 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                if (!e.target.value.trim()) setSearchResults([]);
+              }}
+              placeholder="Search saved context..."
+              className="w-full bg-zinc-900 border border-zinc-700 rounded-lg pl-8 pr-8 py-2 text-xs text-zinc-300 placeholder:text-zinc-600 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+            {searchQuery && (
+              <button onClick={clearSearch} className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 text-zinc-500 hover:text-zinc-300">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {searchQuery.trim() ? (
+          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+            {searching && searchResults.length === 0 && (
+              <div className="flex justify-center py-6"><Loader2 className="w-4 h-4 text-zinc-600 animate-spin" /></div>
+            )}
+            {searchResults.map(hit => (
+              <button
+                key={hit.id}
+                onClick={() => openSearchHit(hit)}
+                className="w-full text-left p-3 rounded-lg hover:bg-zinc-900 border border-transparent transition-colors space-y-1"
+              >
+                <div className="text-sm font-medium text-zinc-300 truncate">{hit.title || hit.url}</div>
+                <div className="text-xs text-zinc-600 truncate">
+                  {hit.siteName || new URL(hit.url).hostname}
+                  {hit.piles.length > 0 && <> · in {hit.piles.map(p => p.title).join(', ')}</>}
+                </div>
+                <p
+                  className="text-xs text-zinc-500 line-clamp-3 [&_mark]:bg-blue-500/20 [&_mark]:text-blue-300 [&_mark]:rounded-sm"
+                  dangerouslySetInnerHTML={{ __html: hit.snippet }}
+                />
+              </button>
+            ))}
+            {!searching && searchResults.length === 0 && (
+              <div className="text-center py-10 text-zinc-600 text-sm px-4">No saved documents match.</div>
+            )}
+          </div>
+        ) : (
+          <>
+          {/* Document List */}
+          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+            {documents.map(doc => (
+              <div
+                key={doc.id}
+                onClick={() => { setSelectedDocId(doc.id); setChapterSelection(null); }}
+                className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors ${
+                  selectedDocId === doc.id
+                    ? 'bg-zinc-800 border-zinc-700'
+                    : 'hover:bg-zinc-900 border border-transparent'
+                }`}
+              >
+                <div className="flex items-center gap-3 overflow-hidden">
+                  {doc.status === 'processing' && <Loader2 className="w-4 h-4 text-blue-500 animate-spin shrink-0" />}
+                  {doc.status === 'processing-transcript' && <Loader2 className="w-4 h-4 text-purple-500 animate-spin shrink-0" />}
+                  {doc.status === 'success' && <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />}
+                  {doc.status === 'error' && <XCircle className="w-4 h-4 text-red-500 shrink-0" />}
+                  {doc.status === 'pending' && <div className="w-4 h-4 rounded-full border-2 border-zinc-600 shrink-0" />}
+
+                  <div className="flex flex-col min-w-0">
+                    <span className={`text-sm font-medium truncate ${selectedDocId === doc.id ? 'text-white' : 'text-zinc-400 group-hover:text-zinc-200'}`}>
+                      {doc.result?.title || doc.url}
+                    </span>
+                    <span className="text-xs text-zinc-600 truncate">{new URL(doc.url).hostname}{doc.pile && ` · ${doc.pile}`}</span>
+                  </div>
                 </div>
+
+                <button
+                  onClick={(e) => removeDoc(doc.id, e)}
+                  className="opacity-0 group-hover:opacity-100 p-1 hover:bg-zinc-700 rounded text-zinc-500 hover:text-red-400 transition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
               </div>
+            ))}
 
+            {documents.length === 0 && (
+              <div className="text-center py-10 text-zinc-600 text-sm px-4">
+                Add URLs above to build your pile.
+              </div>
+            )}
+          </div>
+          </>
+        )}
+
+        {/* Pile Export */}
+        <div className="p-4 border-t border-zinc-800 relative" ref={pileExportMenuRef}>
+          <button
+            onClick={() => setPileExportMenuOpen(!pileExportMenuOpen)}
+            disabled={successCount === 0}
+            className="w-full flex items-center justify-center gap-2 bg-zinc-900 hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed border border-zinc-700 text-zinc-200 text-sm font-medium py-2 rounded-lg transition-colors"
+          >
+            <Layers className="w-4 h-4" /> Export pile ({successCount})
+            <ChevronDown className="w-3 h-3" />
+          </button>
+
+          {pileExportMenuOpen && (
+            <div className="absolute left-4 right-4 bottom-full mb-2 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden">
               <button
-                onClick={(e) => removeDoc(doc.id, e)}
-                className="opacity-0 group-hover:opacity-100 p-1 hover:bg-zinc-700 rounded text-zinc-500 hover:text-red-400 transition"
+                onClick={copyPile}
+                className="w-full px-4 py-2.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white flex items-center gap-2 transition"
               >
-                <Trash2 className="w-4 h-4" />
+                <Clipboard className="w-4 h-4" />
+                Copy for LLM (XML)
+              </button>
+              <button
+                onClick={() => exportPile('markdown')}
+                className="w-full px-4 py-2.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white flex items-center gap-2 transition border-t border-zinc-800"
+              >
+                <Code className="w-4 h-4" />
+                Combined .md
+              </button>
+              <button
+                onClick={() => exportPile('xml')}
+                className="w-full px-4 py-2.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white flex items-center gap-2 transition border-t border-zinc-800"
+              >
+                <Code className="w-4 h-4" />
+                Combined .xml
+              </button>
+              <button
+                onClick={() => exportPile('json')}
+                className="w-full px-4 py-2.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white flex items-center gap-2 transition border-t border-zinc-800"
+              >
+                <FileText className="w-4 h-4" />
+                Combined .json
+              </button>
+              <button
+                onClick={() => exportPile('zip')}
+                className="w-full px-4 py-2.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white flex items-center gap-2 transition border-t border-zinc-800"
+              >
+                <FileArchive className="w-4 h-4" />
+                .zip of .md files
               </button>
-            </div>
-          ))}
-
-          {documents.length === 0 && (
-            <div className="text-center py-10 text-zinc-600 text-sm px-4">
-              Add URLs above to build your pile.
             </div>
           )}
         </div>
@@ -337,6 +980,23 @@ export default function Home() {
                 </div>
                 <div className="flex items-center gap-4 text-xs text-zinc-500">
                    {selectedDoc.result.byline && <span>By {selectedDoc.result.byline}</span>}
+                   {selectedDoc.result.metadata?.publishedAt && (
+                     <span title={selectedDoc.result.metadata.modifiedAt ? `Updated ${selectedDoc.result.metadata.modifiedAt.slice(0, 10)}` : undefined}>
+                       {selectedDoc.result.metadata.publishedAt.slice(0, 10)}
+                     </span>
+                   )}
+                   {selectedDoc.result.metadata?.publisher && <span>{selectedDoc.result.metadata.publisher}</span>}
+                   {selectedDoc.result.metadata?.section && <span>{selectedDoc.result.metadata.section}</span>}
+                   {selectedDoc.result.metadata?.keywords && (
+                     <span className="truncate max-w-[12rem]" title={selectedDoc.result.metadata.keywords.join(', ')}>
+                       {selectedDoc.result.metadata.keywords.slice(0, 3).join(', ')}
+                     </span>
+                   )}
+                   {selectedDoc.result.youtube?.captionTrack && (
+                     <span title={selectedDoc.result.youtube.captionTracks?.map(track => track.name).join(', ')}>
+                       Captions: {selectedDoc.result.youtube.captionTrack.name}{selectedDoc.result.youtube.captionTrack.autoGenerated ? ' (auto)' : ''}
+                     </span>
+                   )}
                    <a href={selectedDoc.url} target="_blank" rel="noopener" className="hover:text-blue-400 truncate max-w-xs">{selectedDoc.url}</a>
                 </div>
               </div>
@@ -389,7 +1049,7 @@ export default function Home() {
                   </button>
 
                   {exportMenuOpen && (
-                    <div className="absolute right-0 mt-2 w-40 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden">
+                    <div className="absolute right-0 mt-2 w-48 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden">
                       <button
                         onClick={() => exportAsMarkdown(selectedDoc)}
                         className="w-full px-4 py-2.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white flex items-center gap-2 transition"
@@ -397,6 +1057,14 @@ export default function Home() {
                         <Code className="w-4 h-4" />
                         Export .md
                       </button>
+                      <button
+                        onClick={() => exportAsMarkdown(selectedDoc, true)}
+                        className="w-full px-4 py-2.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white flex items-center gap-2 transition border-t border-zinc-800"
+                        title="Markdown with a YAML front-matter header of the page metadata"
+                      >
+                        <Code className="w-4 h-4" />
+                        .md + front matter
+                      </button>
                       <button
                         onClick={() => exportAsJson(selectedDoc)}
                         className="w-full px-4 py-2.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white flex items-center gap-2 transition border-t border-zinc-800"
@@ -404,12 +1072,51 @@ export default function Home() {
                         <FileText className="w-4 h-4" />
                         Export .json
                       </button>
+                      {selectedDoc.status === 'success' && !!selectedDoc.result.youtube?.chapters.length && (
+                        <button
+                          onClick={() => openChapterPicker(selectedDoc)}
+                          className="w-full px-4 py-2.5 text-left text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white flex items-center gap-2 transition border-t border-zinc-800"
+                        >
+                          <Layers className="w-4 h-4" />
+                          Export chapters…
+                        </button>
+                      )}
                     </div>
                   )}
                 </div>
               </div>
             </header>
 
+            {/* Chapter export picker */}
+            {chapterSelection && selectedDoc.result.youtube && (
+              <div className="px-6 py-3 border-b border-zinc-800 bg-[#0f0f0f] space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium text-zinc-400">Chapters to export</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => exportChapters(selectedDoc)}
+                      disabled={chapterSelection.length === 0}
+                      className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors"
+                    >
+                      Download .md
+                    </button>
+                    <button onClick={() => setChapterSelection(null)} className="p-1 text-zinc-500 hover:text-zinc-300" title="Close">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 max-h-40 overflow-y-auto">
+                  {selectedDoc.result.youtube.chapters.map((chapter, i) => (
+                    <label key={i} className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                      <input type="checkbox" checked={chapterSelection.includes(i)} onChange={() => toggleChapter(i)} />
+                      <span className="text-zinc-500 font-mono">{formatTimestamp(chapter.start)}</span>
+                      <span className="truncate">{chapter.title}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Viewer */}
             <div className="flex-1 overflow-y-auto p-8 bg-[#0a0a0a] scrollbar-thin scrollbar-thumb-zinc-800 scrollbar-track-transparent">
               <div className="max-w-3xl mx-auto">
@@ -0,0 +1,85 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { FileText, ExternalLink } from 'lucide-react';
+import { openShare } from '@/lib/shares';
+import { toExportSources } from '@/lib/piles';
+
+// Shared piles are read from the database on every request so revocation is immediate
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Shared Pile - ContextPile',
+  robots: { index: false, follow: false },
+};
+
+export default async function SharedPilePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  const opened = await openShare(token);
+  if (!opened) notFound();
+
+  const { share, pile } = opened;
+  const sources = toExportSources(pile);
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-zinc-100 font-sans">
+      <header className="border-b border-zinc-800 bg-[#0f0f0f]">
+        <div className="max-w-3xl mx-auto px-6 py-6 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 text-xs text-zinc-500 mb-2">
+              <div className="w-1.5 h-4 bg-blue-600 rounded-full"></div>
+              ContextPile · read-only
+            </div>
+            <h1 className="text-2xl font-semibold text-white truncate">{pile.title}</h1>
+            {pile.description && <p className="text-sm text-zinc-400 mt-1">{pile.description}</p>}
+            <p className="text-xs text-zinc-600 mt-2">
+              {sources.length} source{sources.length === 1 ? '' : 's'}
+              {share.expiresAt && <> · link expires {share.expiresAt.toLocaleDateString()}</>}
+            </p>
+          </div>
+
+          <a
+            href={`/api/share/${token}`}
+            className="shrink-0 flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-3 py-2 rounded-lg transition-colors"
+          >
+            <FileText className="w-4 h-4" /> Raw Markdown
+          </a>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-8 space-y-8">
+        {sources.length > 0 && (
+          <nav className="bg-zinc-900/50 border border-zinc-800 rounded-lg p-4">
+            <h2 className="text-xs font-semibold uppercase tracking-wide text-zinc-500 mb-2">Contents</h2>
+            <ol className="list-decimal list-inside space-y-1 text-sm">
+              {sources.map(source => (
+                <li key={source.id}>
+                  <a href={`#doc-${source.id}`} className="text-zinc-300 hover:text-blue-400">{source.result.title}</a>
+                  {source.result.siteName && <span className="text-zinc-600"> — {source.result.siteName}</span>}
+                </li>
+              ))}
+            </ol>
+          </nav>
+        )}
+
+        {sources.map(source => (
+          <section key={source.id} id={`doc-${source.id}`} className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-lg font-semibold text-white truncate">{source.result.title}</h2>
+              <a href={source.url} target="_blank" rel="noopener" className="shrink-0 flex items-center gap-1 text-xs text-zinc-500 hover:text-blue-400">
+                Source <ExternalLink className="w-3 h-3" />
+              </a>
+            </div>
+            <pre className="whitespace-pre-wrap font-mono text-sm text-zinc-300 leading-relaxed bg-zinc-900/50 p-6 rounded-lg border border-zinc-800">
+              {source.result.markdown}
+            </pre>
+          </section>
+        ))}
+
+        {sources.length === 0 && (
+          <div className="text-center py-10 text-zinc-600 text-sm">This pile is empty.</div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+
+// Parse a JSON request body without throwing on empty or malformed input.
+// Returns null when the body is not valid JSON so routes can answer with a 400.
+export async function readJsonBody<T = Record<string, unknown>>(request: Request): Promise<T | null> {
+  const text = await request.text();
+  try {
+    return (text ? JSON.parse(text) : {}) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function invalidJson() {
+  return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+}
+
+export function notFound(what: string) {
+  return NextResponse.json({ error: `${what} not found` }, { status: 404 });
+}
@@ -0,0 +1,137 @@
+import Stripe from 'stripe';
+import type { Plan, Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { PLAN_ORDER } from './quota';
+
+// Only webhook verification happens server-side today, which needs no API key.
+// A placeholder key keeps the client constructible for local replays.
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_offline');
+
+type Tx = Prisma.TransactionClient;
+
+// Map a Stripe price id onto a plan via STRIPE_PRICE_STARTER / _PRO / _UNLIMITED
+export function planForPrice(priceId: string | undefined): Plan | null {
+  if (!priceId) return null;
+  return PLAN_ORDER.find(plan => plan !== 'FREE' && process.env[`STRIPE_PRICE_${plan}`] === priceId) || null;
+}
+
+function isPlan(value: unknown): value is Plan {
+  return typeof value === 'string' && (PLAN_ORDER as string[]).includes(value);
+}
+
+function customerId(customer: string | { id: string } | null) {
+  if (!customer) return null;
+  return typeof customer === 'string' ? customer : customer.id;
+}
+
+// Statuses that keep paid access. past_due keeps it while Stripe retries the card;
+// once retries are exhausted Stripe moves the subscription to unpaid/canceled.
+const PAID_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+
+// Stripe does not deliver events in order; an event older than the one that set the
+// current plan must not overwrite it
+function isStale(user: { planUpdatedAt: Date | null }, eventCreated: Date) {
+  return user.planUpdatedAt !== null && eventCreated < user.planUpdatedAt;
+}
+
+// Returns false when the event names no user we know; it is acknowledged, as a retry
+// would fail the same way
+async function handleCheckoutCompleted(tx: Tx, session: Stripe.Checkout.Session, eventCreated: Date) {
+  // Payment Links and Checkout carry our user id in client_reference_id
+  const userId = session.client_reference_id || session.metadata?.userId;
+  if (!userId) {
+    console.warn(`Stripe checkout ${session.id} has no client_reference_id, skipping`);
+    return false;
+  }
+
+  const user = await tx.user.findUnique({ where: { id: userId }, select: { planUpdatedAt: true } });
+  if (!user) {
+    console.warn(`Stripe checkout ${session.id} names unknown user ${userId}, skipping`);
+    return false;
+  }
+
+  const plan = session.metadata?.plan;
+  const setsPlan = isPlan(plan) && !isStale(user, eventCreated);
+  await tx.user.update({
+    where: { id: userId },
+    data: {
+      stripeCustomerId: customerId(session.customer),
+      ...(typeof session.subscription === 'string' ? { stripeSubscriptionId: session.subscription } : {}),
+      ...(setsPlan ? { plan, subscriptionStatus: 'active', planUpdatedAt: eventCreated } : {})
+    }
+  });
+  return true;
+}
+
+async function handleSubscriptionChange(tx: Tx, subscription: Stripe.Subscription, eventCreated: Date) {
+  const customer = customerId(subscription.customer);
+  // A subscription event can arrive before the checkout that links the customer to a
+  // user; the subscription's own metadata.userId covers that
+  const metadataUserId = subscription.metadata?.userId;
+  const user = (customer ? await tx.user.findUnique({ where: { stripeCustomerId: customer } }) : null)
+    || (metadataUserId ? await tx.user.findUnique({ where: { id: metadataUserId } }) : null);
+  if (!user) {
+    // Thrown rather than skipped: the failed request makes Stripe retry once the checkout has linked the customer
+    throw new Error(`Stripe subscription ${subscription.id} has no matching user yet`);
+  }
+  if (isStale(user, eventCreated)) {
+    console.warn(`Stripe subscription ${subscription.id}: ignoring an event older than the current plan`);
+    return false;
+  }
+
+  const paidPlan = planForPrice(subscription.items.data[0]?.price.id);
+  const keepsAccess = PAID_STATUSES.includes(subscription.status);
+
+  await tx.user.update({
+    where: { id: user.id },
+    data: {
+      ...(user.stripeCustomerId ? {} : { stripeCustomerId: customer }),
+      stripeSubscriptionId: subscription.id,
+      subscriptionStatus: subscription.status,
+      plan: keepsAccess ? (paidPlan || user.plan) : 'FREE',
+      planUpdatedAt: eventCreated
+    }
+  });
+  return true;
+}
+
+async function handlePaymentFailed(tx: Tx, invoice: Stripe.Invoice) {
+  const customer = customerId(invoice.customer);
+  if (!customer) return;
+
+  // Plan is left alone; the follow-up subscription update decides on a downgrade
+  await tx.user.updateMany({
+    where: { stripeCustomerId: customer },
+    data: { subscriptionStatus: 'past_due' }
+  });
+}
+
+// Apply a verified event exactly once. The dedupe row is written in the same
+// transaction as the plan change, so a failed handler lets Stripe retry cleanly.
+export async function applyStripeEvent(event: Stripe.Event): Promise<'applied' | 'duplicate' | 'ignored'> {
+  return prisma.$transaction(async (tx) => {
+    const seen = await tx.stripeEvent.findUnique({ where: { id: event.id } });
+    if (seen) return 'duplicate';
+
+    const created = new Date(event.created * 1000);
+    let handled = true;
+    switch (event.type) {
+      case 'checkout.session.completed':
+        handled = await handleCheckoutCompleted(tx, event.data.object, created);
+        break;
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        handled = await handleSubscriptionChange(tx, event.data.object, created);
+        break;
+      case 'invoice.payment_failed':
+        await handlePaymentFailed(tx, event.data.object);
+        break;
+      default:
+        handled = false;
+    }
+
+    await tx.stripeEvent.create({ data: { id: event.id, type: event.type } });
+    return handled ? 'applied' : 'ignored';
+  });
+}
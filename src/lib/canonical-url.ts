@@ -0,0 +1,184 @@
+// URL canonicalization for cache keys and duplicate detection.
+// The canonical form is only used to compare URLs; pages are still fetched from
+// the URL the user gave.
+
+// Query parameters that only carry attribution and never change page content, on any
+// site. Names like ref or si are left alone here: elsewhere they are real selectors
+// (?ref=main picks a branch).
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok'
+]);
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'hsa_', 'oly_'];
+// Share and attribution parameters YouTube adds to its own links
+const YOUTUBE_TRACKING_PARAMS = new Set(['si', 'feature', 'pp', 'ab_channel']);
+
+const YOUTUBE_HOSTS = new Set([
+  'youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com', 'gaming.youtube.com',
+  'youtube-nocookie.com', 'www.youtube-nocookie.com', 'youtu.be'
+]);
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+
+function isTrackingParam(name: string, host: string) {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMS.has(lower)
+    || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix))
+    || (YOUTUBE_HOSTS.has(host) && YOUTUBE_TRACKING_PARAMS.has(lower));
+}
+
+// Video id for watch (?v= or /watch/ID), youtu.be, embed, shorts, live, v/ and e/ URLs,
+// old mobile #/watch?v= links and attribution_link redirects; null for anything else,
+// including YouTube pages that aren't a video (channels, /about, playlists)
+export function getYouTubeVideoId(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (!YOUTUBE_HOSTS.has(host)) return null;
+
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  let id: string | null = null;
+
+  if (host === 'youtu.be') {
+    id = segments[0] || null;
+  } else if (segments[0] === 'watch') {
+    id = parsed.searchParams.get('v') || segments[1] || null;
+  } else if (['embed', 'shorts', 'live', 'v', 'e'].includes(segments[0])) {
+    // embed/videoseries?list= is an embedded playlist, and happens to be 11 characters long
+    id = segments[1] === 'videoseries' ? null : segments[1] || null;
+  } else if (segments[0] === 'attribution_link') {
+    const target = parsed.searchParams.get('u');
+    return target?.startsWith('/') ? getYouTubeVideoId(`https://www.youtube.com${target}`) : null;
+  } else if (segments.length === 0 && parsed.hash.startsWith('#/')) {
+    return getYouTubeVideoId(`https://www.youtube.com${parsed.hash.slice(1)}`);
+  }
+
+  return id && VIDEO_ID_PATTERN.test(id) ? id : null;
+}
+
+// Offsets into a video in milliseconds; either end may be open
+export interface YouTubeTimeRange {
+  start?: number;
+  end?: number;
+}
+
+// YouTube's t= forms ("90", "90s", "1m30s", "1h2m3s") and clock times ("1:30",
+// "1:02:03"), in milliseconds; null when the value is none of those
+export function parseYouTubeTime(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?s?$/.test(text)) return Math.round(parseFloat(text) * 1000);
+  const units = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && text) return ((Number(units[1] || 0) * 60 + Number(units[2] || 0)) * 60 + Number(units[3] || 0)) * 1000;
+  if (/^\d+(:[0-5]?\d){1,2}$/.test(text)) return text.split(':').reduce((total, part) => total * 60 + Number(part), 0) * 1000;
+  return null;
+}
+
+// The part of the video a URL points at: t= or start= (also #t= on old links) opens
+// it, end= closes it. Empty when the URL names neither; unreadable values are ignored.
+export function getYouTubeTimeRange(url: string): YouTubeTimeRange {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return {};
+  }
+
+  const hashParams = new URLSearchParams(parsed.hash.slice(1));
+  const startParam = parsed.searchParams.get('start') ?? parsed.searchParams.get('t') ?? hashParams.get('t');
+  const endParam = parsed.searchParams.get('end');
+  const start = startParam ? parseYouTubeTime(startParam) : null;
+  const end = endParam ? parseYouTubeTime(endParam) : null;
+
+  return {
+    ...(start ? { start } : {}),
+    ...(end && (!start || end > start) ? { end } : {})
+  };
+}
+
+export type YouTubeCollection =
+  | { kind: 'playlist'; playlistId: string }
+  | { kind: 'channel'; channelPath: string; tab: 'videos' | 'streams' };
+
+const PLAYLIST_ID_PATTERN = /^[A-Za-z0-9_-]{10,}$/;
+
+// Playlist (/playlist?list=) and channel (/@handle, /channel/UC..., /c/name, /user/name)
+// URLs; null for anything else. A watch URL with a list= parameter is a single video.
+// Channels default to their uploads (videos tab); a /streams URL keeps past live streams.
+export function getYouTubeCollection(url: string): YouTubeCollection | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (!YOUTUBE_HOSTS.has(host) || host === 'youtu.be' || getYouTubeVideoId(parsed.href)) return null;
+
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  if (segments[0] === 'playlist') {
+    const playlistId = parsed.searchParams.get('list');
+    return playlistId && PLAYLIST_ID_PATTERN.test(playlistId) ? { kind: 'playlist', playlistId } : null;
+  }
+
+  let channelSegments: string[] | null = null;
+  if (segments[0]?.startsWith('@') && segments[0].length > 1) channelSegments = segments.slice(0, 1);
+  else if (['channel', 'c', 'user'].includes(segments[0]) && segments[1]) channelSegments = segments.slice(0, 2);
+  if (!channelSegments) return null;
+
+  const tab = segments[channelSegments.length] === 'streams' ? 'streams' : 'videos';
+  return { kind: 'channel', channelPath: `/${channelSegments.join('/')}`, tab };
+}
+
+export function canonicalizeUrl(url: string): string {
+  const parsed = new URL(url.trim());
+
+  // Every form of a YouTube video collapses to one watch URL
+  const videoId = getYouTubeVideoId(parsed.href);
+  if (videoId) return `https://www.youtube.com/watch?v=${videoId}`;
+
+  const host = parsed.hostname.toLowerCase();
+  parsed.protocol = parsed.protocol === 'http:' ? 'https:' : parsed.protocol;
+  parsed.hostname = host.replace(/^www\./, '');
+  parsed.hash = '';
+  if (parsed.port === '443' || parsed.port === '80') parsed.port = '';
+
+  const kept = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name, host))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(kept).toString();
+
+  // `/docs/` and `/docs` are the same page on virtually every site
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  return parsed.href;
+}
+
+// Canonicalize, or null when the input is not a valid absolute URL
+export function tryCanonicalizeUrl(url: string): string | null {
+  try {
+    return canonicalizeUrl(url);
+  } catch {
+    return null;
+  }
+}
+
+// A page's declared canonical URL (rel=canonical, og:url), resolved against the page and
+// canonicalized. Null unless it is on the page's own origin: any page can claim to be
+// the canonical copy of any other.
+export function resolveCanonicalUrl(href: string, pageUrl: string): string | null {
+  try {
+    const resolved = new URL(href, pageUrl);
+    if (resolved.origin !== new URL(pageUrl).origin) return null;
+    return tryCanonicalizeUrl(resolved.href);
+  } catch {
+    return null;
+  }
+}
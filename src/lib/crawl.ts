@@ -0,0 +1,159 @@
+import { JSDOM } from 'jsdom';
+import type { ParseResult } from './types';
+import { tryCanonicalizeUrl } from './canonical-url';
+import { fetchPage } from './extraction/http';
+import { extractLinks, scrapeWebPage } from './extraction/web';
+
+// Crawl a documentation section: every page on the same site under a path prefix,
+// reached by following links (breadth-first) or listed in the site's sitemap.
+
+export const DEFAULT_CRAWL_DEPTH = 2;
+export const MAX_CRAWL_DEPTH = 5;
+export const DEFAULT_CRAWL_PAGES = 25;
+export const MAX_CRAWL_PAGES = 100;
+// Pages are fetched one after another, so 100 slow pages could outrun the route's time
+// limit. No new page is started past this; the pages crawled so far are returned.
+export const DEFAULT_CRAWL_TIME_MS = 200 * 1000;
+
+// Docs navigation menus easily list more than the 100 links kept on a ParseResult
+const MAX_LINKS_PER_PAGE = 1000;
+const MAX_CHILD_SITEMAPS = 10;
+const SKIPPED_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|css|js|mjs|json|xml|txt|zip|gz|tgz|tar|mp3|mp4|webm|woff2?|ttf|pdf)$/i;
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  // Only pages whose path starts with this are crawled. Defaults to the start URL's path.
+  pathPrefix?: string;
+  // Take the page list from sitemap.xml instead of following links. Implied when the
+  // start URL is itself a sitemap.
+  sitemap?: boolean;
+  timeBudgetMs?: number;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  result: ParseResult;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  failed: { url: string; error: string }[];
+  // More in-scope pages were found than maxPages or the time budget allowed
+  truncated: boolean;
+  // The time budget ran out before the crawl finished
+  timedOut: boolean;
+}
+
+function isSitemapUrl(url: URL) {
+  return /sitemap[^/]*\.xml$/i.test(url.pathname);
+}
+
+function defaultPrefix(start: URL) {
+  if (isSitemapUrl(start)) return '/';
+  return start.pathname.replace(/\/+$/, '') || '/';
+}
+
+// Sitemaps often list the http:// or bare-domain form of an https://www. site, so the
+// scheme is ignored and www. is dropped when comparing hosts
+function siteHost(url: URL) {
+  return url.host.replace(/^www\./, '');
+}
+
+function inScope(url: URL, host: string, prefix: string) {
+  if (!/^https?:$/.test(url.protocol) || siteHost(url) !== host || SKIPPED_EXTENSIONS.test(url.pathname)) return false;
+  if (prefix === '/') return true;
+  return url.pathname === prefix || url.pathname.startsWith(`${prefix}/`);
+}
+
+// Page URLs in sitemap order, following one level of sitemap index files
+async function readSitemap(sitemapUrl: string, deadline: number): Promise<string[]> {
+  const { html: xml } = await fetchPage(sitemapUrl);
+  const doc = new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+  const locs = (parent: Element | Document, tag: string) => Array.from(parent.getElementsByTagName(tag))
+    .map(el => el.getElementsByTagName('loc')[0]?.textContent?.trim() || '')
+    .filter(Boolean);
+
+  const childSitemaps = locs(doc, 'sitemap');
+  if (childSitemaps.length === 0) return locs(doc, 'url');
+
+  const urls: string[] = [];
+  for (const child of childSitemaps.slice(0, MAX_CHILD_SITEMAPS)) {
+    if (Date.now() >= deadline) break;
+    try {
+      urls.push(...await readSitemap(child, deadline));
+    } catch (e) {
+      console.warn(`Skipping sitemap ${child}:`, e instanceof Error ? e.message : e);
+    }
+  }
+  return urls;
+}
+
+// Pages come back in navigation order: the start page, then the pages it links to in
+// document order (sidebar menus list sections top to bottom), then their links, and
+// so on. In sitemap mode the sitemap's own order is used.
+export async function crawlSite(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const start = new URL(startUrl);
+  const maxDepth = Math.min(options.maxDepth ?? DEFAULT_CRAWL_DEPTH, MAX_CRAWL_DEPTH);
+  const maxPages = Math.min(options.maxPages ?? DEFAULT_CRAWL_PAGES, MAX_CRAWL_PAGES);
+  const prefix = (options.pathPrefix || defaultPrefix(start)).replace(/(.)\/+$/, '$1');
+  const host = siteHost(start);
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_CRAWL_TIME_MS);
+
+  const result: CrawlResult = { pages: [], failed: [], truncated: false, timedOut: false };
+  const seen = new Set<string>();
+  const queue: { url: string; depth: number }[] = [];
+
+  const enqueue = (href: string, depth: number) => {
+    let url: URL;
+    try {
+      url = new URL(href);
+    } catch {
+      return;
+    }
+    url.hash = '';
+    const key = tryCanonicalizeUrl(url.href);
+    if (!key || seen.has(key) || !inScope(url, host, prefix)) return;
+    seen.add(key);
+    queue.push({ url: url.href, depth });
+  };
+
+  const useSitemap = options.sitemap || isSitemapUrl(start);
+  if (useSitemap) {
+    const sitemapUrl = isSitemapUrl(start) ? start.href : new URL('/sitemap.xml', start.origin).href;
+    for (const url of await readSitemap(sitemapUrl, deadline)) enqueue(url, 0);
+  } else {
+    enqueue(start.href, 0);
+  }
+
+  while (queue.length > 0) {
+    if (result.pages.length >= maxPages) {
+      result.truncated = true;
+      break;
+    }
+    if (Date.now() >= deadline) {
+      result.truncated = true;
+      result.timedOut = true;
+      break;
+    }
+    const { url, depth } = queue.shift()!;
+
+    let html: string;
+    try {
+      const scraped = await scrapeWebPage(url);
+      result.pages.push({ url, depth, result: scraped.result });
+      html = scraped.html;
+    } catch (e) {
+      result.failed.push({ url, error: e instanceof Error ? e.message : 'Failed to process page' });
+      continue;
+    }
+
+    if (!useSitemap && depth < maxDepth) {
+      const doc = new JSDOM(html, { url }).window.document;
+      for (const link of extractLinks(doc, url, MAX_LINKS_PER_PAGE)) enqueue(link.href, depth + 1);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,175 @@
+import type { Plan, Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { retentionDates } from './retention';
+import { remainingQuota } from './quota';
+import type { ParseResult } from './types';
+import { getYouTubeCollection, getYouTubeVideoId } from './canonical-url';
+
+export type SourceType = 'web' | 'youtube';
+
+export function sourceTypeFor(url: string): SourceType {
+  return getYouTubeVideoId(url) || getYouTubeCollection(url) ? 'youtube' : 'web';
+}
+
+export interface SaveDocumentInput {
+  url: string;
+  title?: string | null;
+  siteName?: string | null;
+  markdown?: string | null;
+}
+
+// Check a client-sent result before saving it. Returns an error message instead of
+// throwing on bad input.
+export function parseSaveDocumentInput(body: Record<string, unknown>): SaveDocumentInput | string {
+  if (typeof body.url !== 'string' || !body.url) return 'url is required';
+  for (const key of ['title', 'siteName', 'markdown'] as const) {
+    if (body[key] != null && typeof body[key] !== 'string') return `${key} must be a string`;
+  }
+  return {
+    url: body.url,
+    title: body.title as string | null | undefined,
+    siteName: body.siteName as string | null | undefined,
+    markdown: body.markdown as string | null | undefined
+  };
+}
+
+// Persist a processed result for the user, starting its retention clocks
+export async function saveDocument(userId: string, input: SaveDocumentInput) {
+  return prisma.document.create({
+    data: {
+      url: input.url,
+      title: input.title || null,
+      siteName: input.siteName || null,
+      markdown: input.markdown || null,
+      sourceType: sourceTypeFor(input.url),
+      ...retentionDates(),
+      userId
+    }
+  });
+}
+
+// Save what an ingest route produced to the user's history and return the result with
+// its documentId. Every ingest is saved, since saved rows are what the URL quota counts.
+// Playlist and feed indexes are only lists: videos are saved as the client fetches them,
+// and so are feed entries, except those the feed carried in full, which are saved here
+// while the plan has room. Past that they lose their content, so the client fetches
+// (and the quota gate sees) each one.
+export async function saveIngestedResult(user: { id: string; plan: Plan }, url: string, result: ParseResult): Promise<ParseResult> {
+  if (result.playlist) return result;
+
+  if (result.feed) {
+    let room = (await remainingQuota(user, 'urls')) ?? Infinity;
+    const entries = [];
+    for (const entry of result.feed.entries) {
+      if (!entry.result) {
+        entries.push(entry);
+      } else if (room <= 0) {
+        entries.push({ url: entry.url, title: entry.title, published: entry.published, author: entry.author });
+      } else {
+        room--;
+        const document = await saveDocument(user.id, { url: entry.url, title: entry.result.title, siteName: entry.result.siteName, markdown: entry.result.markdown });
+        entries.push({ ...entry, result: { ...entry.result, documentId: document.id } });
+      }
+    }
+    return { ...result, feed: { ...result.feed, entries } };
+  }
+
+  const document = await saveDocument(user.id, { url, title: result.title, siteName: result.siteName, markdown: result.markdown });
+  return { ...result, documentId: document.id };
+}
+
+// --- History listing ---
+
+export const SORT_FIELDS = ['createdAt', 'title', 'siteName'] as const;
+export type SortField = typeof SORT_FIELDS[number];
+
+export interface DocumentQuery {
+  cursor?: string;
+  limit: number;
+  siteName?: string;
+  from?: Date;
+  to?: Date;
+  type?: SourceType;
+  sort: SortField;
+  order: 'asc' | 'desc';
+}
+
+export const MAX_PAGE_SIZE = 100;
+
+// Parse query-string filters. Returns an error message instead of throwing on bad input.
+export function parseDocumentQuery(params: URLSearchParams): DocumentQuery | string {
+  const limit = params.has('limit') ? Number(params.get('limit')) : 20;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`;
+  }
+
+  const sort = (params.get('sort') || 'createdAt') as SortField;
+  if (!SORT_FIELDS.includes(sort)) return `sort must be one of ${SORT_FIELDS.join(', ')}`;
+
+  const order = params.get('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') return 'order must be asc or desc';
+
+  const type = params.get('type') || undefined;
+  if (type && type !== 'web' && type !== 'youtube') return 'type must be web or youtube';
+
+  const dates: { from?: Date; to?: Date } = {};
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    // A date-only `to` includes that whole day (date-only strings parse as UTC midnight)
+    const date = new Date(key === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value);
+    if (isNaN(date.getTime())) return `${key} must be a valid date`;
+    dates[key] = date;
+  }
+
+  return {
+    cursor: params.get('cursor') || undefined,
+    limit,
+    siteName: params.get('siteName') || undefined,
+    ...dates,
+    type: type as SourceType | undefined,
+    sort,
+    order
+  };
+}
+
+// One page of the user's history, without the (large) markdown bodies.
+// Ordered by the sort field with id as tiebreaker so the cursor is stable.
+export async function listDocuments(userId: string, query: DocumentQuery) {
+  const where: Prisma.DocumentWhereInput = {
+    userId,
+    ...(query.siteName ? { siteName: { equals: query.siteName, mode: 'insensitive' } } : {}),
+    ...(query.type ? { sourceType: query.type } : {}),
+    ...(query.from || query.to ? { createdAt: { gte: query.from, lte: query.to } } : {})
+  };
+
+  const rows = await prisma.document.findMany({
+    where,
+    orderBy: [{ [query.sort]: query.order }, { id: query.order }],
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    select: {
+      id: true,
+      url: true,
+      title: true,
+      siteName: true,
+      sourceType: true,
+      createdAt: true,
+      contentExpiresAt: true,
+      urlExpiresAt: true
+    }
+  });
+
+  const hasMore = rows.length > query.limit;
+  const page = hasMore ? rows.slice(0, query.limit) : rows;
+  const now = new Date();
+
+  return {
+    documents: page.map(row => ({
+      ...row,
+      // A row past urlExpiresAt is only waiting for the purge job to delete it
+      contentExpired: (row.contentExpiresAt !== null && row.contentExpiresAt <= now) || (row.urlExpiresAt !== null && row.urlExpiresAt <= now)
+    })),
+    nextCursor: hasMore ? page[page.length - 1].id : null
+  };
+}
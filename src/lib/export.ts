@@ -0,0 +1,233 @@
+import JSZip from 'jszip';
+import type { ParseResult } from './types';
+
+// Export builders shared by the client export menu and server routes.
+// Nothing here touches the DOM or Node-only APIs, so it runs in the browser and on the server.
+
+export const EXPORT_VERSION = '1.0';
+
+export interface ExportSource {
+  id: string;
+  url: string;
+  result: ParseResult;
+}
+
+export interface PileExportOptions {
+  title?: string;
+  description?: string;
+}
+
+export function toFilename(title: string, extension: string) {
+  return `${title.replace(/[^a-z0-9]/gi, '_').substring(0, 50)}.${extension}`;
+}
+
+function countWords(text: string) {
+  return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+// Caption and chapter times as m:ss
+export function formatTimestamp(offsetMs: number) {
+  const minutes = Math.floor(offsetMs / 1000 / 60);
+  const seconds = Math.floor((offsetMs / 1000) % 60).toString().padStart(2, '0');
+  return `${minutes}:${seconds}`;
+}
+
+type Chapter = NonNullable<ParseResult['youtube']>['chapters'][number];
+
+// `## Chapters` list of a YouTube document: one numbered line per chapter, linking to
+// that moment in the video
+export function formatChapterList(videoId: string, chapters: Chapter[]) {
+  return chapters
+    .map((chapter, i) => `${i + 1}. [${formatTimestamp(chapter.start)}](https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(chapter.start / 1000)}s) ${chapter.title}`)
+    .join('\n');
+}
+
+// A YouTube document cut down to the chosen chapters (indexes into youtube.chapters):
+// the video header, their lines of the chapter list and their transcript sections
+export function buildChapterMarkdown(source: ExportSource, selected: number[]) {
+  const { result } = source;
+  const keep = new Set(selected);
+  const [head, transcript = ''] = result.markdown.split(/\n## Transcript\n/);
+  const [intro, chapterList = ''] = head.split(/\n## Chapters\n/);
+
+  const listLines = chapterList.trim().split('\n').filter((_, i) => keep.has(i));
+  // Sections are matched by the start time ending their heading, since a clipped
+  // transcript only has headings for the chapters it overlaps
+  const starts = new Set((result.youtube?.chapters || []).filter((_, i) => keep.has(i)).map(chapter => `(${formatTimestamp(chapter.start)})`));
+  // Section 0 is whatever precedes the first chapter heading
+  const sections = transcript.split(/^(?=### )/m).slice(1)
+    .filter(section => starts.has(section.split('\n')[0].match(/\([\d:]+\)\s*$/)?.[0].trim() || ''));
+
+  let markdown = `${intro.trimEnd()}\n\n`;
+  if (listLines.length > 0) markdown += `## Chapters\n\n${listLines.join('\n')}\n\n`;
+  if (sections.length > 0) markdown += `## Transcript\n\n${sections.map(section => section.trim()).join('\n\n')}\n`;
+  return markdown;
+}
+
+// Per-document block of the JSON export (exportVersion 1.0)
+export function toExportDocument(source: ExportSource) {
+  const { result } = source;
+  return {
+    id: result.id || source.id,
+    sourceUrl: result.sourceUrl || source.url,
+    title: result.title,
+    siteName: result.siteName,
+    scrapedAt: result.scrapedAt || new Date().toISOString(),
+    content: {
+      markdown: result.markdown,
+      plainText: result.textContent,
+      wordCount: result.wordCount || countWords(result.textContent)
+    },
+    structure: {
+      headings: result.headings || [],
+      links: result.links || [],
+      images: result.images || []
+    },
+    ...(result.language ? { language: result.language } : {}),
+    ...(result.metadata ? { metadata: result.metadata } : {}),
+    ...(result.youtube ? { youtube: result.youtube } : {}),
+    ...(result.wikipedia ? { wikipedia: result.wikipedia } : {})
+  };
+}
+
+export function buildDocumentJson(source: ExportSource) {
+  return JSON.stringify({
+    exportVersion: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    document: toExportDocument(source)
+  }, null, 2);
+}
+
+// Double-quoted YAML scalar; JSON string escaping is valid YAML
+function yamlString(value: string) {
+  return JSON.stringify(value);
+}
+
+// YAML front matter (Jekyll/Hugo/Obsidian style) built from the document's page metadata
+export function buildFrontMatter(source: ExportSource) {
+  const { result } = source;
+  const meta = result.metadata || {};
+  const fields: [string, string | string[] | undefined][] = [
+    ['title', meta.title || result.title],
+    ['author', meta.author || result.byline],
+    ['published', meta.publishedAt],
+    ['modified', meta.modifiedAt],
+    ['publisher', meta.publisher],
+    ['section', meta.section],
+    ['keywords', meta.keywords],
+    ['description', meta.description || result.excerpt],
+    ['source', result.sourceUrl || source.url],
+    ['canonical', meta.canonicalUrl || result.canonicalUrl],
+    ['site', result.siteName],
+    ['language', result.language || meta.locale],
+    ['scraped', result.scrapedAt]
+  ];
+
+  const lines = fields.flatMap(([key, value]) => {
+    if (Array.isArray(value)) {
+      return value.length > 0 ? [`${key}:`, ...value.map(item => `  - ${yamlString(item)}`)] : [];
+    }
+    return value ? [`${key}: ${yamlString(value)}`] : [];
+  });
+  return `---\n${lines.join('\n')}\n---\n\n`;
+}
+
+export function buildDocumentMarkdown(source: ExportSource, options: { frontMatter?: boolean } = {}) {
+  return options.frontMatter ? buildFrontMatter(source) + source.result.markdown : source.result.markdown;
+}
+
+// Same schema as the single-document export, with a `documents` array in pile order
+export function buildPileJson(sources: ExportSource[], options: PileExportOptions = {}) {
+  return JSON.stringify({
+    exportVersion: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(options.title ? { pile: { title: options.title, description: options.description || null } } : {}),
+    documents: sources.map(toExportDocument)
+  }, null, 2);
+}
+
+// GitHub-style heading anchor so the table of contents links work in most renderers
+function headingAnchor(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-');
+}
+
+// Push every ATX heading down `by` levels (capped at h6), leaving fenced code alone,
+// so each source nests under its own section header in the combined file.
+export function shiftHeadings(markdown: string, by: number) {
+  let inFence = false;
+  return markdown
+    .split('\n')
+    .map(line => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence) return line;
+      return line.replace(/^(#{1,6})(?=\s)/, hashes => '#'.repeat(Math.min(6, hashes.length + by)));
+    })
+    .join('\n');
+}
+
+export function buildPileMarkdown(sources: ExportSource[], options: PileExportOptions = {}) {
+  const title = options.title || 'ContextPile Export';
+  const sectionTitles = sources.map((source, i) => `${i + 1}. ${source.result.title || source.url}`);
+
+  let markdown = `# ${title}\n\n`;
+  if (options.description) markdown += `${options.description}\n\n`;
+  markdown += `_${sources.length} source${sources.length === 1 ? '' : 's'} · exported ${new Date().toISOString()}_\n\n`;
+
+  markdown += `## Contents\n\n`;
+  sources.forEach((source, i) => {
+    const site = source.result.siteName ? ` — ${source.result.siteName}` : '';
+    markdown += `${i + 1}. [${source.result.title || source.url}](#${headingAnchor(sectionTitles[i])})${site}\n`;
+  });
+
+  sources.forEach((source, i) => {
+    const { result } = source;
+    const url = result.sourceUrl || source.url;
+
+    markdown += `\n---\n\n## ${sectionTitles[i]}\n\n`;
+    markdown += `**Source:** [${url}](${url})`;
+    if (result.siteName) markdown += ` | **Site:** ${result.siteName}`;
+    if (result.scrapedAt) markdown += ` | **Scraped:** ${result.scrapedAt.slice(0, 10)}`;
+    markdown += `\n\n${shiftHeadings(result.markdown.trim(), 2)}\n`;
+  });
+
+  return markdown;
+}
+
+function escapeXmlAttribute(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Anthropic-recommended long-context layout: one <document> per source, content left as Markdown
+export function buildPileXml(sources: ExportSource[]) {
+  let xml = '<documents>\n';
+  sources.forEach((source, i) => {
+    const url = source.result.sourceUrl || source.url;
+    xml += `<document index="${i + 1}" source="${escapeXmlAttribute(url)}">\n`;
+    xml += `<title>${escapeXmlAttribute(source.result.title || url)}</title>\n`;
+    xml += `<document_content>\n${source.result.markdown.trim()}\n</document_content>\n`;
+    xml += `</document>\n`;
+  });
+  xml += '</documents>\n';
+  return xml;
+}
+
+// One .md file per source, prefixed with its position so the archive keeps pile order
+export async function buildPileZip(sources: ExportSource[]) {
+  const zip = new JSZip();
+  const width = String(sources.length).length;
+
+  sources.forEach((source, i) => {
+    const prefix = String(i + 1).padStart(Math.max(2, width), '0');
+    zip.file(`${prefix}_${toFilename(source.result.title || 'Untitled', 'md')}`, source.result.markdown);
+  });
+
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
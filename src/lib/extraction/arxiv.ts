@@ -0,0 +1,200 @@
+import { JSDOM } from 'jsdom';
+import type { ParseResult } from '../types';
+import { shiftHeadings } from '../export';
+import { fetchResource, fetchWithTimeout, countWords, METADATA_TIMEOUT_MS } from './http';
+import { escapeHtml } from './markdown';
+import { parseHtml } from './web';
+import { parsePdf } from './pdf';
+import { ExtractionError, type SiteAdapter } from './types';
+
+const ARXIV_API = 'https://export.arxiv.org/api/query';
+const ARXIV_HOSTS = new Set(['arxiv.org', 'www.arxiv.org', 'export.arxiv.org']);
+const MAX_REFERENCES = 200;
+
+// New-style ids (2401.01234v2) and old-style archive ids (hep-th/9901001v1)
+const ARXIV_ID_PATTERN = /^(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(v\d+)?$/;
+
+export type ArxivPaper = NonNullable<ParseResult['paper']>;
+
+// arXiv id from /abs/<id>, /pdf/<id>[.pdf] and /html/<id> URLs
+export function getArxivId(url: URL): string | null {
+  if (!ARXIV_HOSTS.has(url.hostname.toLowerCase())) return null;
+  const match = url.pathname.match(/^\/(?:abs|pdf|html)\/(.+?)(?:\.pdf)?\/?$/);
+  return match && ARXIV_ID_PATTERN.test(match[1]) ? match[1] : null;
+}
+
+function text(el: Element | null | undefined) {
+  return el?.textContent?.replace(/\s+/g, ' ').trim() || '';
+}
+
+// Metadata from the arXiv Atom API: one <entry> per requested id
+async function fetchArxivMetadata(id: string) {
+  let response: Response;
+  try {
+    response = await fetchWithTimeout(`${ARXIV_API}?id_list=${encodeURIComponent(id)}`, {}, METADATA_TIMEOUT_MS);
+  } catch {
+    throw new ExtractionError('Failed to reach the arXiv API');
+  }
+  if (!response.ok) throw new ExtractionError(`arXiv API error: ${response.status} ${response.statusText}`);
+
+  const doc = new JSDOM(await response.text(), { contentType: 'text/xml' }).window.document;
+  const entry = doc.getElementsByTagName('entry')[0];
+  const entryId = text(entry?.getElementsByTagName('id')[0]);
+  if (!entry || !entryId || entryId.includes('/api/errors')) {
+    throw new ExtractionError(`arXiv paper ${id} not found`, 404);
+  }
+
+  const categories = Array.from(entry.getElementsByTagName('category'))
+    .map(el => el.getAttribute('term') || '')
+    .filter(Boolean);
+
+  return {
+    // The id in the feed carries the latest version, e.g. http://arxiv.org/abs/2401.01234v2
+    arxivId: entryId.replace(/^https?:\/\/arxiv\.org\/abs\//, ''),
+    title: text(entry.getElementsByTagName('title')[0]),
+    authors: Array.from(entry.getElementsByTagName('author')).map(el => text(el.getElementsByTagName('name')[0])),
+    abstract: text(entry.getElementsByTagName('summary')[0]),
+    primaryCategory: entry.getElementsByTagName('arxiv:primary_category')[0]?.getAttribute('term') || categories[0] || '',
+    categories,
+    published: text(entry.getElementsByTagName('published')[0]),
+    updated: text(entry.getElementsByTagName('updated')[0]),
+    doi: text(entry.getElementsByTagName('arxiv:doi')[0]) || undefined,
+    journalRef: text(entry.getElementsByTagName('arxiv:journal_ref')[0]) || undefined,
+    comment: text(entry.getElementsByTagName('arxiv:comment')[0]) || undefined
+  };
+}
+
+type ArxivMetadata = Awaited<ReturnType<typeof fetchArxivMetadata>>;
+
+// Pull the bibliography out of the LaTeXML-rendered HTML version, so it is listed once
+// under References instead of trailing the full text
+function splitBibliography(html: string) {
+  const dom = new JSDOM(html);
+  const doc = dom.window.document;
+  const references = Array.from(doc.querySelectorAll('.ltx_bibitem'))
+    .slice(0, MAX_REFERENCES)
+    .map(el => text(el).replace(/^\[\d+\]\s*/, ''))
+    .filter(reference => reference.length > 0);
+  doc.querySelectorAll('.ltx_bibliography, .ltx_biblist').forEach(el => el.remove());
+  return { body: dom.serialize(), references };
+}
+
+// Full text from the HTML version when arXiv has one (newer LaTeX submissions),
+// otherwise from the PDF. Either failing still leaves the abstract.
+async function fetchFullText(id: string): Promise<{ markdown: string; references: string[]; source: 'html' | 'pdf' } | null> {
+  try {
+    const response = await fetchResource(`https://arxiv.org/html/${id}`);
+    const { body, references } = splitBibliography(await response.text());
+    return { markdown: parseHtml(body, `https://arxiv.org/html/${id}`).markdown, references, source: 'html' };
+  } catch (e) {
+    console.warn(`arXiv HTML version unavailable for ${id}, falling back to PDF:`, e instanceof Error ? e.message : e);
+  }
+
+  try {
+    const pdfUrl = `https://arxiv.org/pdf/${id}`;
+    const response = await fetchResource(pdfUrl);
+    const pdf = await parsePdf(new Uint8Array(await response.arrayBuffer()), pdfUrl);
+    return { markdown: pdf.markdown, references: [], source: 'pdf' };
+  } catch (e) {
+    console.warn(`arXiv PDF extraction failed for ${id}:`, e instanceof Error ? e.message : e);
+    return null;
+  }
+}
+
+// "Vaswani, A., Shazeer, N. and Parmar, N." style author list
+function citationAuthors(authors: string[]) {
+  const names = authors.map(name => {
+    const parts = name.split(' ');
+    const last = parts.pop() || name;
+    const initials = parts.map(part => `${part[0]}.`).join(' ');
+    return initials ? `${last}, ${initials}` : last;
+  });
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+export function buildCitation(meta: ArxivMetadata) {
+  const year = meta.published.slice(0, 4);
+  const baseId = meta.arxivId.replace(/v\d+$/, '');
+  const doi = meta.doi ? ` https://doi.org/${meta.doi}` : '';
+  return `${citationAuthors(meta.authors)} (${year}). ${meta.title}. arXiv:${baseId} [${meta.primaryCategory}].${doi}`;
+}
+
+export function buildBibtex(meta: ArxivMetadata) {
+  const baseId = meta.arxivId.replace(/v\d+$/, '');
+  const firstAuthor = (meta.authors[0] || 'anon').split(' ').pop()?.toLowerCase().replace(/[^a-z]/g, '') || 'anon';
+  const firstWord = meta.title.toLowerCase().split(/\s+/).find(word => word.length > 3)?.replace(/[^a-z]/g, '') || '';
+  const fields = [
+    `  title         = {${meta.title}}`,
+    `  author        = {${meta.authors.join(' and ')}}`,
+    `  year          = {${meta.published.slice(0, 4)}}`,
+    `  eprint        = {${baseId}}`,
+    `  archivePrefix = {arXiv}`,
+    `  primaryClass  = {${meta.primaryCategory}}`,
+    meta.doi ? `  doi           = {${meta.doi}}` : '',
+    meta.journalRef ? `  journal       = {${meta.journalRef}}` : '',
+    `  url           = {https://arxiv.org/abs/${baseId}}`
+  ].filter(Boolean);
+  return `@misc{${firstAuthor}${meta.published.slice(0, 4)}${firstWord},\n${fields.join(',\n')}\n}`;
+}
+
+// Metadata, abstract, full text and a citation block for arXiv papers
+export const arxivAdapter: SiteAdapter = {
+  name: 'arxiv',
+  matches: (url) => getArxivId(url) !== null,
+  async extract(url) {
+    const id = getArxivId(new URL(url));
+    if (!id) throw new ExtractionError('Unsupported arXiv URL');
+
+    const [meta, fullText] = await Promise.all([fetchArxivMetadata(id), fetchFullText(id)]);
+    const citation = buildCitation(meta);
+    const bibtex = buildBibtex(meta);
+
+    const facts = [
+      `**arXiv:** [${meta.arxivId}](https://arxiv.org/abs/${meta.arxivId})`,
+      `**Categories:** ${meta.categories.join(', ')}`,
+      `**Submitted:** ${meta.published.slice(0, 10)}`,
+      meta.updated && meta.updated !== meta.published ? `**Updated:** ${meta.updated.slice(0, 10)}` : ''
+    ].filter(Boolean).join(' | ');
+
+    let markdown = `# ${meta.title}\n\n**Authors:** ${meta.authors.join(', ')}\n\n${facts}\n\n`;
+    if (meta.journalRef) markdown += `**Journal:** ${meta.journalRef}\n\n`;
+    if (meta.doi) markdown += `**DOI:** [${meta.doi}](https://doi.org/${meta.doi})\n\n`;
+    markdown += `## Abstract\n\n${meta.abstract}\n\n`;
+    if (fullText) {
+      markdown += `## Full Text\n\n${shiftHeadings(fullText.markdown.trim(), 2)}\n\n`;
+    } else {
+      markdown += `## Full Text\n\n_Full text could not be extracted; only the abstract is included._\n\n`;
+    }
+    if (fullText?.references.length) {
+      markdown += `## References\n\n${fullText.references.map((ref, i) => `${i + 1}. ${ref}`).join('\n')}\n\n`;
+    }
+    markdown += `## Citation\n\n${citation}\n\n\`\`\`bibtex\n${bibtex}\n\`\`\`\n`;
+
+    const paper: ArxivPaper = {
+      ...meta,
+      pdfUrl: `https://arxiv.org/pdf/${meta.arxivId}`,
+      fullTextSource: fullText?.source || null,
+      references: fullText?.references || [],
+      citation,
+      bibtex
+    };
+
+    const result: ParseResult = {
+      title: meta.title,
+      markdown,
+      content: `<h1>${escapeHtml(meta.title)}</h1><pre>${escapeHtml(markdown)}</pre>`,
+      textContent: markdown,
+      siteName: 'arXiv',
+      byline: meta.authors.join(', '),
+      excerpt: meta.abstract.slice(0, 300),
+      sourceUrl: url,
+      // abs, pdf and html links to the same paper share one cache entry
+      canonicalUrl: `https://arxiv.org/abs/${meta.arxivId.replace(/v\d+$/, '')}`,
+      scrapedAt: new Date().toISOString(),
+      wordCount: countWords(markdown),
+      paper
+    };
+    return result;
+  }
+};
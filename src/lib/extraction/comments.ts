@@ -0,0 +1,75 @@
+import type { CommentOptions } from './types';
+
+// One comment in a discussion thread, normalized across Reddit and Hacker News
+export interface CommentNode {
+  author: string;
+  score: number | null; // null where the site does not expose comment scores
+  createdAt: string | null; // ISO date
+  body: string; // Markdown
+  children: CommentNode[];
+  // Replies the site itself did not include in the response (Reddit's "load more")
+  unloadedReplies?: number;
+}
+
+export interface RenderedThread {
+  markdown: string;
+  shown: number;
+  omitted: number;
+}
+
+function countTree(nodes: CommentNode[]): number {
+  return nodes.reduce((total, node) => total + 1 + countTree(node.children), 0);
+}
+
+function header(node: CommentNode) {
+  const parts = [`**${node.author}**`];
+  if (node.score !== null) parts.push(`${node.score} point${node.score === 1 ? '' : 's'}`);
+  if (node.createdAt) parts.push(node.createdAt.slice(0, 10));
+  return parts.join(' · ');
+}
+
+// Render the tree as nested Markdown lists, one indentation level per reply depth.
+// Comment bodies are indented to stay inside their list item, code blocks included.
+export function renderCommentTree(nodes: CommentNode[], options: CommentOptions = {}): RenderedThread {
+  const lines: string[] = [];
+  let shown = 0;
+  let omitted = 0;
+
+  const walk = (siblings: CommentNode[], depth: number) => {
+    const indent = '  '.repeat(depth);
+    for (const node of siblings) {
+      if (options.minScore !== undefined && node.score !== null && node.score < options.minScore) {
+        omitted += 1 + countTree(node.children);
+        continue;
+      }
+
+      shown++;
+      lines.push(`${indent}- ${header(node)}`, '');
+      for (const line of (node.body.trim() || '_[deleted]_').split('\n')) {
+        lines.push(line ? `${indent}  ${line}` : '');
+      }
+
+      if (options.maxDepth !== undefined && depth + 1 >= options.maxDepth) {
+        omitted += countTree(node.children);
+      } else {
+        walk(node.children, depth + 1);
+      }
+
+      if (node.unloadedReplies) {
+        lines.push(`${indent}  - _${node.unloadedReplies} more repl${node.unloadedReplies === 1 ? 'y' : 'ies'} not loaded_`);
+      }
+    }
+  };
+
+  walk(nodes, 0);
+  return { markdown: lines.join('\n'), shown, omitted };
+}
+
+// Markdown section for a whole thread, with a note when filters hid comments
+export function formatCommentsSection(nodes: CommentNode[], options: CommentOptions = {}) {
+  const { markdown, shown, omitted } = renderCommentTree(nodes, options);
+  let section = `## Comments (${shown})\n\n`;
+  if (omitted > 0) section += `_${omitted} comment${omitted === 1 ? '' : 's'} hidden by depth or score filters._\n\n`;
+  section += markdown || '_No comments yet._';
+  return section;
+}
@@ -0,0 +1,100 @@
+import JSZip from 'jszip';
+import { JSDOM } from 'jsdom';
+import DOMPurify from 'isomorphic-dompurify';
+import type { ParseResult } from '../types';
+import { countWords, fileNameFromUrl, safeDecodeURIComponent } from './http';
+import { htmlToMarkdown } from './markdown';
+import { extractHeadings } from './web';
+import { ExtractionError } from './types';
+import { checkUnzippedSize } from './zip';
+
+export const EPUB_CONTENT_TYPE = 'application/epub+zip';
+
+function xml(text: string) {
+  return new JSDOM(text, { contentType: 'text/xml' }).window.document;
+}
+
+function firstText(doc: Document, tag: string) {
+  return doc.getElementsByTagName(tag)[0]?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+// Zip paths in the OPF are relative to the OPF file itself
+function resolvePath(base: string, href: string) {
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of safeDecodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+// EPUB: META-INF/container.xml points at the OPF package, whose spine lists the
+// chapters in reading order. Chapters are joined into one document.
+export async function parseEpub(data: Uint8Array, url: string): Promise<ParseResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new ExtractionError('Could not read EPUB: not a valid zip archive');
+  }
+  await checkUnzippedSize(zip, 'EPUB');
+
+  const container = await zip.file('META-INF/container.xml')?.async('string');
+  const opfPath = container ? xml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path') : null;
+  const opfText = opfPath ? await zip.file(opfPath)?.async('string') : undefined;
+  if (!opfPath || !opfText) throw new ExtractionError('Could not read EPUB: missing package document');
+
+  const opf = xml(opfText);
+  const manifest = new Map(Array.from(opf.getElementsByTagName('item')).map(item => [
+    item.getAttribute('id') || '',
+    { href: item.getAttribute('href') || '', type: item.getAttribute('media-type') || '' }
+  ]));
+  const chapterPaths = Array.from(opf.getElementsByTagName('itemref'))
+    .filter(ref => ref.getAttribute('linear') !== 'no')
+    .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+    .filter(item => item && /html/.test(item.type))
+    .map(item => resolvePath(opfPath, item!.href));
+
+  const markdownParts: string[] = [];
+  const htmlParts: string[] = [];
+  const textParts: string[] = [];
+  const headings: { level: number; text: string }[] = [];
+
+  for (const path of chapterPaths) {
+    const chapter = await zip.file(path)?.async('string');
+    if (!chapter) continue;
+    // Chapters are XHTML, but parsing as HTML tolerates the malformed ones
+    const body = new JSDOM(chapter).window.document.body;
+    const html = DOMPurify.sanitize(body?.innerHTML || '');
+    const doc = new JSDOM(html).window.document;
+    const text = doc.body.textContent?.trim() || '';
+    if (!text) continue;
+
+    headings.push(...extractHeadings(doc));
+    markdownParts.push(htmlToMarkdown(html).trim());
+    htmlParts.push(html);
+    textParts.push(text);
+  }
+
+  if (markdownParts.length === 0) throw new ExtractionError('EPUB has no readable chapters');
+
+  const fileName = fileNameFromUrl(url).replace(/\.epub$/i, '');
+  const title = firstText(opf, 'dc:title') || fileName || 'Untitled EPUB';
+  const author = Array.from(opf.getElementsByTagName('dc:creator')).map(el => el.textContent?.trim()).filter(Boolean).join(', ');
+  const textContent = textParts.join('\n\n');
+
+  return {
+    title,
+    markdown: markdownParts.join('\n\n---\n\n') + '\n',
+    content: htmlParts.join('\n<hr>\n'),
+    textContent,
+    siteName: firstText(opf, 'dc:publisher') || 'EPUB',
+    byline: author || undefined,
+    excerpt: firstText(opf, 'dc:description')?.slice(0, 300) || textContent.slice(0, 300),
+    sourceUrl: url,
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(textContent),
+    language: firstText(opf, 'dc:language') || '',
+    headings
+  };
+}
@@ -0,0 +1,189 @@
+import { JSDOM } from 'jsdom';
+import DOMPurify from 'isomorphic-dompurify';
+import type { ParseResult } from '../types';
+import { countWords } from './http';
+import { escapeHtml, htmlToMarkdown } from './markdown';
+import type { FeedOptions } from './types';
+
+export const DEFAULT_FEED_ITEMS = 20;
+export const MAX_FEED_ITEMS = 100;
+// Below this, feed content is taken to be a teaser and the article page is fetched instead
+const MIN_FULL_CONTENT_WORDS = 150;
+
+export type FeedEntry = NonNullable<ParseResult['feed']>['entries'][number];
+
+const FEED_CONTENT_TYPES = ['application/rss+xml', 'application/atom+xml', 'application/rdf+xml', 'application/feed+xml'];
+
+// Dedicated feed types always count; generic XML only when the document root is a feed
+export function isFeedResponse(contentType: string, body: string) {
+  const type = contentType.toLowerCase();
+  if (FEED_CONTENT_TYPES.some(feedType => type.includes(feedType))) return true;
+  if (!type.includes('xml') && !body.trimStart().startsWith('<?xml')) return false;
+  return /<(rss|feed|rdf:RDF)[\s>]/.test(body.slice(0, 2000));
+}
+
+function childText(parent: Element, ...tags: string[]) {
+  for (const tag of tags) {
+    const el = parent.getElementsByTagName(tag)[0];
+    const text = el?.textContent?.trim();
+    if (text) return text;
+  }
+  return '';
+}
+
+// Atom and some RSS titles carry escaped HTML
+function plainText(html: string) {
+  return JSDOM.fragment(`<p>${html}</p>`).textContent?.replace(/\s+/g, ' ').trim() || '';
+}
+
+function isoDate(value: string) {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Atom links: rel="alternate" (or no rel) is the entry's page
+function atomLink(parent: Element) {
+  const links = Array.from(parent.children).filter(el => el.localName === 'link');
+  const alternate = links.find(el => !el.getAttribute('rel') || el.getAttribute('rel') === 'alternate');
+  return alternate?.getAttribute('href') || '';
+}
+
+// An entry's page as an absolute http(s) URL. Entries without one (a missing or
+// unparseable link, a urn: id) are dropped rather than pointed at the feed itself.
+function entryUrl(link: string, baseUrl: string) {
+  if (!link) return null;
+  try {
+    const url = new URL(link, baseUrl);
+    return /^https?:$/.test(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// RSS guids double as the item's link unless marked isPermaLink="false"
+function permalinkGuid(item: Element) {
+  const guid = item.getElementsByTagName('guid')[0];
+  return guid && guid.getAttribute('isPermaLink') !== 'false' ? guid.textContent?.trim() || '' : '';
+}
+
+interface RawEntry {
+  url: string;
+  title: string;
+  published?: string;
+  author?: string;
+  contentHtml: string;
+  summaryHtml: string;
+}
+
+function readAtom(feed: Element, baseUrl: string) {
+  const entries: RawEntry[] = Array.from(feed.getElementsByTagName('entry')).flatMap(entry => {
+    const url = entryUrl(atomLink(entry) || childText(entry, 'id'), baseUrl);
+    if (!url) return [];
+    return [{
+      url,
+      title: plainText(childText(entry, 'title')),
+      published: isoDate(childText(entry, 'published', 'updated')),
+      author: childText(entry, 'name') || undefined,
+      contentHtml: childText(entry, 'content'),
+      summaryHtml: childText(entry, 'summary')
+    }];
+  });
+  const titleEl = Array.from(feed.children).find(el => el.localName === 'title');
+  return { title: plainText(titleEl?.textContent || ''), link: atomLink(feed), entries };
+}
+
+// RSS 2.0 (<rss><channel><item>) and RSS 1.0 (<rdf:RDF><item>)
+function readRss(root: Element, baseUrl: string) {
+  const channel = root.getElementsByTagName('channel')[0];
+  const channelTitle = channel ? Array.from(channel.children).find(el => el.localName === 'title')?.textContent : '';
+  // tagName, not localName, so an <atom:link rel="self"> in the channel is not taken for the site link
+  const channelLink = channel ? Array.from(channel.children).find(el => el.tagName === 'link')?.textContent : '';
+
+  const entries: RawEntry[] = Array.from(root.getElementsByTagName('item')).flatMap(item => {
+    const url = entryUrl(childText(item, 'link') || permalinkGuid(item), baseUrl);
+    if (!url) return [];
+    return [{
+      url,
+      title: plainText(childText(item, 'title')),
+      published: isoDate(childText(item, 'pubDate', 'dc:date')),
+      author: childText(item, 'dc:creator', 'author') || undefined,
+      contentHtml: childText(item, 'content:encoded'),
+      summaryHtml: childText(item, 'description')
+    }];
+  });
+  return { title: plainText(channelTitle || ''), link: channelLink?.trim() || '', entries };
+}
+
+// Full ParseResult for an entry whose feed item carries the whole article
+function entryResult(entry: RawEntry, feedTitle: string): ParseResult {
+  const html = DOMPurify.sanitize(entry.contentHtml);
+  const body = htmlToMarkdown(html);
+  const facts = [
+    entry.author ? `**Author:** ${entry.author}` : '',
+    entry.published ? `**Published:** ${entry.published.slice(0, 10)}` : '',
+    `**Source:** [${feedTitle}](${entry.url})`
+  ].filter(Boolean).join(' | ');
+  const textContent = plainText(html);
+
+  return {
+    title: entry.title,
+    markdown: `# ${entry.title}\n\n${facts}\n\n${body}\n`,
+    content: html,
+    textContent,
+    siteName: feedTitle,
+    byline: entry.author,
+    excerpt: plainText(entry.summaryHtml).slice(0, 200) || textContent.slice(0, 200),
+    sourceUrl: entry.url,
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(textContent)
+  };
+}
+
+// A feed becomes an index document listing its entries; `feed.entries` lets the client
+// turn each entry into its own document. Entries carrying full content come with a
+// ready result, the rest are fetched as ordinary URLs.
+export function parseFeed(xml: string, url: string, options: FeedOptions = {}): ParseResult {
+  const doc = new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+  const root = doc.documentElement;
+  const parsed = root.localName === 'feed' ? readAtom(root, url) : readRss(root, url);
+  const feedTitle = parsed.title || new URL(url).hostname;
+
+  const maxItems = Math.min(options.maxItems ?? DEFAULT_FEED_ITEMS, MAX_FEED_ITEMS);
+  const since = options.since?.getTime();
+  const matching = parsed.entries
+    .filter(entry => since === undefined || (entry.published && Date.parse(entry.published) >= since))
+    .sort((a, b) => (b.published || '').localeCompare(a.published || ''));
+  const selected = matching.slice(0, maxItems);
+
+  const entries: FeedEntry[] = selected.map(entry => ({
+    url: entry.url,
+    title: entry.title || entry.url,
+    published: entry.published,
+    author: entry.author,
+    ...(countWords(plainText(entry.contentHtml)) >= MIN_FULL_CONTENT_WORDS ? { result: entryResult(entry, feedTitle) } : {})
+  }));
+
+  let markdown = `# ${feedTitle}\n\n`;
+  if (parsed.link) markdown += `**Site:** ${parsed.link} | `;
+  markdown += `**Feed:** ${url} | **Entries:** ${entries.length} of ${parsed.entries.length}\n\n`;
+  markdown += entries
+    .map(entry => `- [${entry.title}](${entry.url})${entry.published ? ` · ${entry.published.slice(0, 10)}` : ''}${entry.author ? ` · ${entry.author}` : ''}`)
+    .join('\n');
+
+  return {
+    title: feedTitle,
+    markdown: markdown + '\n',
+    content: `<h1>${escapeHtml(feedTitle)}</h1><ul>${entries.map(entry => `<li><a href="${escapeHtml(entry.url)}">${escapeHtml(entry.title)}</a></li>`).join('')}</ul>`,
+    textContent: entries.map(entry => entry.title).join('\n'),
+    siteName: feedTitle,
+    sourceUrl: url,
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(markdown),
+    feed: {
+      title: feedTitle,
+      link: parsed.link || undefined,
+      totalEntries: parsed.entries.length,
+      entries
+    }
+  };
+}
@@ -0,0 +1,197 @@
+import JSZip from 'jszip';
+import { JSDOM } from 'jsdom';
+import DOMPurify from 'isomorphic-dompurify';
+import mammoth from 'mammoth';
+import type { ParseResult } from '../types';
+import { countWords, fileNameFromUrl } from './http';
+import { escapeHtml, htmlToMarkdown } from './markdown';
+import { extractHeadings, extractImages, extractLinks, parseHtml } from './web';
+import { PDF_CONTENT_TYPE, parsePdf } from './pdf';
+import { EPUB_CONTENT_TYPE, parseEpub } from './epub';
+import { ExtractionError } from './types';
+import { checkUnzippedSize } from './zip';
+
+// Local files uploaded through /api/upload, converted to the same ParseResult as scraped pages
+
+export type UploadKind = 'pdf' | 'html' | 'docx' | 'epub' | 'text' | 'markdown';
+
+const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const EXTENSIONS: Record<string, UploadKind> = {
+  pdf: 'pdf', html: 'html', htm: 'html', xhtml: 'html', docx: 'docx', epub: 'epub',
+  txt: 'text', text: 'text', md: 'markdown', markdown: 'markdown', mdx: 'markdown'
+};
+const CONTENT_TYPES: Record<string, UploadKind> = {
+  [PDF_CONTENT_TYPE]: 'pdf',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  [DOCX_CONTENT_TYPE]: 'docx',
+  [EPUB_CONTENT_TYPE]: 'epub',
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown'
+};
+
+export const UPLOAD_EXTENSIONS = Object.keys(EXTENSIONS).map(extension => `.${extension}`);
+
+// The extension decides, since browsers report .md files as text/plain or nothing at all
+export function uploadKind(fileName: string, contentType: string): UploadKind | null {
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] || '';
+  return EXTENSIONS[extension] || CONTENT_TYPES[contentType.split(';')[0].trim().toLowerCase()] || null;
+}
+
+// Uploaded files have no URL; a file: URL keeps the filename as the document's source
+export function uploadUrl(fileName: string) {
+  return `file:///${encodeURIComponent(fileName)}`;
+}
+
+function baseName(url: string) {
+  return fileNameFromUrl(url).replace(/\.[a-z0-9]+$/i, '');
+}
+
+function decodeText(data: Uint8Array) {
+  // TextDecoder drops a UTF-8 byte order mark
+  return new TextDecoder('utf-8').decode(data);
+}
+
+// ATX headings outside fenced code
+function markdownHeadings(markdown: string) {
+  const headings: { level: number; text: string }[] = [];
+  let inFence = false;
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) headings.push({ level: match[1].length, text: match[2] });
+  }
+  return headings;
+}
+
+// A whole HTML body as the document, for files that are all content (no Readability pass)
+function htmlFileResult(html: string, url: string, siteName: string, title?: string): ParseResult {
+  const clean = DOMPurify.sanitize(html);
+  const doc = new JSDOM(clean, { url }).window.document;
+  const textContent = doc.body.textContent?.trim() || '';
+  if (!textContent) throw new ExtractionError('File has no readable text');
+  const headings = extractHeadings(doc);
+
+  return {
+    title: title || headings[0]?.text || baseName(url) || 'Untitled',
+    markdown: htmlToMarkdown(clean),
+    content: clean,
+    textContent,
+    siteName,
+    excerpt: textContent.slice(0, 300),
+    sourceUrl: url,
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(textContent),
+    headings,
+    links: extractLinks(doc, url),
+    images: extractImages(doc, url)
+  };
+}
+
+// Saved web pages get the same Readability pass as scraped ones; fragments and
+// hand-written files it can't make sense of are taken whole
+function parseHtmlFile(data: Uint8Array, url: string): ParseResult {
+  const html = decodeText(data);
+  try {
+    const result = parseHtml(html, url);
+    return {
+      ...result,
+      title: result.title === 'Untitled' ? baseName(url) || result.title : result.title,
+      siteName: result.siteName || 'HTML'
+    };
+  } catch (e) {
+    if (!(e instanceof ExtractionError)) throw e;
+    return htmlFileResult(html, url, 'HTML');
+  }
+}
+
+function parseTextFile(data: Uint8Array, url: string): ParseResult {
+  const text = decodeText(data).replace(/\r\n?/g, '\n').trim();
+  if (!text) throw new ExtractionError('File is empty');
+  const title = baseName(url) || 'Untitled';
+
+  return {
+    title,
+    markdown: text + '\n',
+    content: `<pre>${escapeHtml(text)}</pre>`,
+    textContent: text,
+    siteName: 'Text',
+    excerpt: text.slice(0, 300),
+    sourceUrl: url,
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(text),
+    headings: []
+  };
+}
+
+function parseMarkdownFile(data: Uint8Array, url: string): ParseResult {
+  const markdown = decodeText(data).replace(/\r\n?/g, '\n').trim();
+  if (!markdown) throw new ExtractionError('File is empty');
+  const headings = markdownHeadings(markdown);
+  // YAML front matter title, then the first h1, then the filename
+  const frontMatter = markdown.match(/^---\n([\s\S]*?)\n---(?:\n|$)/)?.[1] || '';
+  const frontMatterTitle = frontMatter.match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1];
+  const title = frontMatterTitle || headings.find(heading => heading.level === 1)?.text || baseName(url) || 'Untitled';
+
+  return {
+    title,
+    markdown: markdown + '\n',
+    content: `<pre>${escapeHtml(markdown)}</pre>`,
+    textContent: markdown,
+    siteName: 'Markdown',
+    excerpt: markdown.slice(frontMatter ? frontMatter.length + 8 : 0).trim().slice(0, 300),
+    sourceUrl: url,
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(markdown),
+    headings
+  };
+}
+
+// Word documents via mammoth, which maps paragraph styles to headings, lists and tables.
+// Embedded images are dropped rather than inlined as data: URLs.
+async function parseDocx(data: Uint8Array, url: string): Promise<ParseResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new ExtractionError('Could not read DOCX: not a valid zip archive');
+  }
+  // mammoth unzips the file itself, so the size is checked first
+  await checkUnzippedSize(zip, 'DOCX');
+
+  let html: string;
+  let core: Document | null = null;
+  try {
+    const buffer = Buffer.from(data);
+    ({ value: html } = await mammoth.convertToHtml({ buffer }, {
+      convertImage: mammoth.images.imgElement(async () => ({ src: '' }))
+    }));
+    const coreXml = await zip.file('docProps/core.xml')?.async('string');
+    if (coreXml) core = new JSDOM(coreXml, { contentType: 'text/xml' }).window.document;
+  } catch (e) {
+    throw new ExtractionError(`Could not read DOCX: ${e instanceof Error ? e.message : 'invalid file'}`);
+  }
+
+  const property = (tag: string) => core?.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+  const result = htmlFileResult(html, url, 'DOCX', property('dc:title'));
+  return { ...result, byline: property('dc:creator'), language: property('dc:language') || '' };
+}
+
+export async function parseUploadedFile(kind: UploadKind, data: Uint8Array, url: string): Promise<ParseResult> {
+  switch (kind) {
+    case 'pdf':
+      return parsePdf(data, url);
+    case 'html':
+      return parseHtmlFile(data, url);
+    case 'docx':
+      return parseDocx(data, url);
+    case 'epub':
+      return parseEpub(data, url);
+    case 'text':
+      return parseTextFile(data, url);
+    case 'markdown':
+      return parseMarkdownFile(data, url);
+  }
+}
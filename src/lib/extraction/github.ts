@@ -0,0 +1,335 @@
+import type { ParseResult } from '../types';
+import { shiftHeadings } from '../export';
+import { fetchWithTimeout, countWords, METADATA_TIMEOUT_MS } from './http';
+import { escapeHtml, fenceFor } from './markdown';
+import { ExtractionError, type SiteAdapter } from './types';
+
+// GITHUB_API_URL points the adapter at a stand-in server for local testing
+// (see scripts/github-stub.mjs). GITHUB_TOKEN lifts the 60 requests/hour anonymous limit.
+function apiBase() {
+  return (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+}
+
+const GITHUB_HOSTS = new Set(['github.com', 'www.github.com']);
+// First path segments that are GitHub's own pages rather than an owner
+const RESERVED_OWNERS = new Set([
+  'about', 'apps', 'collections', 'enterprise', 'explore', 'features', 'login', 'marketplace',
+  'notifications', 'orgs', 'pricing', 'pulls', 'issues', 'search', 'settings', 'sponsors', 'topics', 'trending'
+]);
+// GitHub's own rules for owner and repository names
+const NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const MAX_TREE_ENTRIES = 1000;
+const MAX_COMMENT_PAGES = 10;
+const COMMENTS_PER_PAGE = 100;
+
+type GitHubTarget =
+  | { kind: 'repo'; owner: string; repo: string; ref?: string; path?: string }
+  | { kind: 'file'; owner: string; repo: string; ref: string; path: string }
+  | { kind: 'issue' | 'pull'; owner: string; repo: string; number: number };
+
+interface GitHubUser {
+  login: string;
+}
+
+interface GitHubComment {
+  user: GitHubUser | null;
+  body: string | null;
+  created_at: string;
+  path?: string;
+}
+
+// Path segments decoded, or null when one is malformed (%E0%A4) or decodes to a
+// relative segment that would climb out of the API path
+function decodeSegments(pathname: string) {
+  try {
+    const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    return segments.some(segment => segment === '.' || segment === '..') ? null : segments;
+  } catch {
+    return null;
+  }
+}
+
+// Map github.com URLs onto the API resource they show. Other pages (profiles,
+// Actions runs, wikis) return null and fall through to the generic web adapter.
+export function parseGitHubUrl(url: URL): GitHubTarget | null {
+  if (!GITHUB_HOSTS.has(url.hostname.toLowerCase())) return null;
+
+  const segments = decodeSegments(url.pathname);
+  if (!segments) return null;
+  const [owner, rawRepo, section, ...rest] = segments;
+  if (!owner || !rawRepo || RESERVED_OWNERS.has(owner.toLowerCase())) return null;
+  const repo = rawRepo.replace(/\.git$/, '');
+  if (!NAME_PATTERN.test(owner) || !NAME_PATTERN.test(repo)) return null;
+
+  if (!section) return { kind: 'repo', owner, repo };
+  // Refs containing a slash are ambiguous in the URL; the first segment is taken as the ref
+  if (section === 'tree' && rest[0]) return { kind: 'repo', owner, repo, ref: rest[0], path: rest.slice(1).join('/') };
+  if (section === 'blob' && rest.length >= 2) return { kind: 'file', owner, repo, ref: rest[0], path: rest.slice(1).join('/') };
+  if ((section === 'issues' || section === 'pull') && /^\d+$/.test(rest[0] || '')) {
+    return { kind: section === 'issues' ? 'issue' : 'pull', owner, repo, number: Number(rest[0]) };
+  }
+  return null;
+}
+
+// API path of a repository, every part encoded
+function repoPath(target: { owner: string; repo: string }) {
+  return `/repos/${encodeURIComponent(target.owner)}/${encodeURIComponent(target.repo)}`;
+}
+
+function encodePath(path: string) {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+async function githubApi<T>(path: string): Promise<T> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+    'X-GitHub-Api-Version': '2022-11-28'
+  };
+  if (process.env.GITHUB_TOKEN) headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+
+  let response: Response;
+  try {
+    response = await fetchWithTimeout(`${apiBase()}${path}`, { headers }, METADATA_TIMEOUT_MS);
+  } catch {
+    throw new ExtractionError('Failed to reach the GitHub API');
+  }
+
+  if (response.status === 404) {
+    throw new ExtractionError('GitHub resource not found (private repositories need GITHUB_TOKEN)', 404);
+  }
+  if (response.status === 403 || response.status === 429) {
+    throw new ExtractionError('GitHub API rate limit exceeded; set GITHUB_TOKEN to raise it');
+  }
+  if (!response.ok) {
+    throw new ExtractionError(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// Follow page=N until a short page comes back
+async function githubApiPages<T>(path: string): Promise<T[]> {
+  const all: T[] = [];
+  for (let page = 1; page <= MAX_COMMENT_PAGES; page++) {
+    const separator = path.includes('?') ? '&' : '?';
+    const items = await githubApi<T[]>(`${path}${separator}per_page=${COMMENTS_PER_PAGE}&page=${page}`);
+    all.push(...items);
+    if (items.length < COMMENTS_PER_PAGE) break;
+  }
+  return all;
+}
+
+function decodeContent(file: { content?: string; encoding?: string }) {
+  if (file.encoding !== 'base64' || !file.content) return null;
+  return Buffer.from(file.content, 'base64').toString('utf8');
+}
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', swift: 'swift',
+  c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', hpp: 'cpp', cs: 'csharp', php: 'php', scala: 'scala',
+  sh: 'bash', bash: 'bash', zsh: 'bash', ps1: 'powershell', sql: 'sql', prisma: 'prisma',
+  html: 'html', css: 'css', scss: 'scss', vue: 'vue', svelte: 'svelte',
+  json: 'json', yml: 'yaml', yaml: 'yaml', toml: 'toml', xml: 'xml', md: 'markdown', mdx: 'mdx',
+  graphql: 'graphql', proto: 'protobuf', tf: 'hcl', lua: 'lua', r: 'r', dart: 'dart', ex: 'elixir', exs: 'elixir'
+};
+
+const FILENAME_LANGUAGES: Record<string, string> = {
+  dockerfile: 'dockerfile',
+  makefile: 'makefile',
+  gemfile: 'ruby',
+  rakefile: 'ruby'
+};
+
+export function languageForPath(path: string) {
+  const name = path.split('/').pop()?.toLowerCase() || '';
+  if (FILENAME_LANGUAGES[name]) return FILENAME_LANGUAGES[name];
+  const extension = name.includes('.') ? name.split('.').pop() || '' : '';
+  return LANGUAGES[extension] || '';
+}
+
+function formatDate(iso: string) {
+  return iso.slice(0, 10);
+}
+
+function buildResult(url: string, title: string, markdown: string, content: string, excerpt?: string): ParseResult {
+  return {
+    title,
+    markdown,
+    content,
+    textContent: markdown,
+    siteName: 'GitHub',
+    excerpt,
+    sourceUrl: url,
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(markdown)
+  };
+}
+
+// --- Repositories ---
+
+// Indented listing in the API's order (each directory precedes its contents),
+// directories marked with a trailing slash
+function renderTree(paths: { path: string; type: string }[]) {
+  return paths
+    .map(entry => {
+      const depth = entry.path.split('/').length - 1;
+      const name = entry.path.split('/').pop();
+      return `${'  '.repeat(depth)}${name}${entry.type === 'tree' ? '/' : ''}`;
+    })
+    .join('\n');
+}
+
+async function extractRepo(url: string, target: Extract<GitHubTarget, { kind: 'repo' }>) {
+  const base = repoPath(target);
+  const repo = await githubApi<{
+    full_name: string;
+    description: string | null;
+    default_branch: string;
+    language: string | null;
+    stargazers_count: number;
+    topics?: string[];
+  }>(base);
+
+  const ref = target.ref || repo.default_branch;
+  const prefix = target.path ? `${target.path.replace(/\/+$/, '')}/` : '';
+
+  const [readme, tree] = await Promise.all([
+    githubApi<{ content?: string; encoding?: string }>(
+      `${base}/readme${prefix ? `/${encodePath(prefix.slice(0, -1))}` : ''}?ref=${encodeURIComponent(ref)}`
+    ).catch(() => null),
+    githubApi<{ tree: { path: string; type: string }[]; truncated: boolean }>(
+      `${base}/git/trees/${encodeURIComponent(ref)}?recursive=1`
+    )
+  ]);
+
+  const entries = tree.tree
+    .filter(entry => entry.path.startsWith(prefix))
+    .map(entry => ({ ...entry, path: entry.path.slice(prefix.length) }))
+    .filter(entry => entry.path.length > 0);
+  const shown = entries.slice(0, MAX_TREE_ENTRIES);
+  const readmeText = readme ? decodeContent(readme) : null;
+
+  const title = target.path ? `${repo.full_name}/${target.path}` : repo.full_name;
+  const facts = [
+    `**Branch:** ${ref}`,
+    repo.language ? `**Language:** ${repo.language}` : '',
+    `**Stars:** ${repo.stargazers_count}`,
+    repo.topics?.length ? `**Topics:** ${repo.topics.join(', ')}` : ''
+  ].filter(Boolean).join(' | ');
+
+  let markdown = `# ${title}\n\n`;
+  if (repo.description) markdown += `> ${repo.description}\n\n`;
+  markdown += `${facts}\n\n`;
+  // README headings nest under our own `## README`
+  if (readmeText) markdown += `## README\n\n${shiftHeadings(readmeText.trim(), 2)}\n\n`;
+  markdown += `## Files\n\n\`\`\`text\n${renderTree(shown)}\n\`\`\`\n`;
+  if (tree.truncated || entries.length > shown.length) {
+    markdown += `\n_File list truncated; showing ${shown.length} entries._\n`;
+  }
+
+  let content = `<h1>${escapeHtml(title)}</h1>`;
+  if (repo.description) content += `<blockquote>${escapeHtml(repo.description)}</blockquote>`;
+  if (readmeText) content += `<h2>README</h2><pre>${escapeHtml(readmeText)}</pre>`;
+  content += `<h2>Files</h2><pre>${escapeHtml(renderTree(shown))}</pre>`;
+
+  return buildResult(url, title, markdown, content, repo.description || undefined);
+}
+
+// --- Files ---
+
+async function extractFile(url: string, target: Extract<GitHubTarget, { kind: 'file' }>) {
+  const file = await githubApi<{ content?: string; encoding?: string; size: number; type: string }>(
+    `${repoPath(target)}/contents/${encodePath(target.path)}?ref=${encodeURIComponent(target.ref)}`
+  );
+
+  if (file.type !== 'file') throw new ExtractionError('GitHub URL does not point at a file');
+  const code = decodeContent(file);
+  if (code === null) throw new ExtractionError('File is too large to import through the GitHub API');
+  if (code.includes('\u0000')) throw new ExtractionError('Binary files cannot be imported');
+
+  const language = languageForPath(target.path);
+  const fence = fenceFor(code);
+  const title = target.path.split('/').pop() || target.path;
+
+  const markdown = `# ${title}\n\n`
+    + `**Repository:** ${target.owner}/${target.repo} | **Path:** ${target.path} | **Ref:** ${target.ref}\n\n`
+    + `${fence}${language}\n${code.replace(/\n$/, '')}\n${fence}\n`;
+  const content = `<h1>${escapeHtml(title)}</h1>`
+    + `<pre><code${language ? ` class="language-${language}"` : ''}>${escapeHtml(code)}</code></pre>`;
+
+  return { ...buildResult(url, title, markdown, content), textContent: code, wordCount: countWords(code) };
+}
+
+// --- Issues and pull requests ---
+
+function renderComment(comment: GitHubComment) {
+  const author = comment.user ? `@${comment.user.login}` : 'ghost';
+  const where = comment.path ? ` on \`${comment.path}\`` : '';
+  return `### ${author} commented${where} on ${formatDate(comment.created_at)}\n\n${(comment.body || '_No description._').trim()}`;
+}
+
+async function extractThread(url: string, target: Extract<GitHubTarget, { kind: 'issue' | 'pull' }>) {
+  const base = repoPath(target);
+  const isPull = target.kind === 'pull';
+
+  // The issues endpoint serves pull requests too and carries the conversation comments;
+  // review comments on the diff live under /pulls
+  const [issue, comments, pull, reviewComments] = await Promise.all([
+    githubApi<{ title: string; body: string | null; state: string; user: GitHubUser | null; created_at: string; labels: { name: string }[] }>(
+      `${base}/issues/${target.number}`
+    ),
+    githubApiPages<GitHubComment>(`${base}/issues/${target.number}/comments`),
+    isPull
+      ? githubApi<{ merged: boolean; head: { ref: string }; base: { ref: string }; additions: number; deletions: number; changed_files: number }>(
+        `${base}/pulls/${target.number}`
+      )
+      : Promise.resolve(null),
+    isPull ? githubApiPages<GitHubComment>(`${base}/pulls/${target.number}/comments`) : Promise.resolve([])
+  ]);
+
+  const thread = [...comments, ...reviewComments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const title = `${issue.title} (#${target.number})`;
+  const state = pull?.merged ? 'merged' : issue.state;
+
+  const facts = [
+    `**Repository:** ${target.owner}/${target.repo}`,
+    `**${isPull ? 'Pull request' : 'Issue'}:** ${state}`,
+    `**Author:** ${issue.user ? `@${issue.user.login}` : 'ghost'}`,
+    `**Opened:** ${formatDate(issue.created_at)}`,
+    issue.labels.length ? `**Labels:** ${issue.labels.map(label => label.name).join(', ')}` : ''
+  ].filter(Boolean).join(' | ');
+
+  let markdown = `# ${title}\n\n${facts}\n\n`;
+  if (pull) {
+    markdown += `**Branch:** ${pull.head.ref} → ${pull.base.ref} | **Changes:** +${pull.additions} −${pull.deletions} in ${pull.changed_files} files\n\n`;
+  }
+  markdown += `${(issue.body || '_No description._').trim()}\n\n`;
+  markdown += `## Comments (${thread.length})\n\n`;
+  markdown += thread.map(renderComment).join('\n\n');
+
+  const content = `<h1>${escapeHtml(title)}</h1><pre>${escapeHtml(markdown)}</pre>`;
+
+  return {
+    ...buildResult(url, title, markdown.trimEnd() + '\n', content, issue.body?.slice(0, 200) || undefined),
+    byline: issue.user?.login
+  };
+}
+
+// Repos (README + file tree), files (fenced code), issues and pull requests (full thread)
+export const githubAdapter: SiteAdapter = {
+  name: 'github',
+  matches: (url) => parseGitHubUrl(url) !== null,
+  async extract(url) {
+    const target = parseGitHubUrl(new URL(url));
+    if (!target) throw new ExtractionError('Unsupported GitHub URL');
+
+    switch (target.kind) {
+      case 'repo':
+        return extractRepo(url, target);
+      case 'file':
+        return extractFile(url, target);
+      default:
+        return extractThread(url, target);
+    }
+  }
+};
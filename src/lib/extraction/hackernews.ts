@@ -0,0 +1,79 @@
+import type { ParseResult } from '../types';
+import { countWords, fetchJson } from './http';
+import { escapeHtml, htmlToMarkdown } from './markdown';
+import { formatCommentsSection, type CommentNode } from './comments';
+import { ExtractionError, type SiteAdapter } from './types';
+
+// The Algolia HN API returns an item with its whole comment tree in one request,
+// where the official Firebase API needs one request per comment
+const HN_ITEM_API = 'https://hn.algolia.com/api/v1/items';
+
+interface HackerNewsItem {
+  id: number;
+  type: string;
+  author: string | null;
+  title: string | null;
+  url: string | null;
+  text: string | null; // HTML
+  points: number | null;
+  created_at: string;
+  children: HackerNewsItem[];
+}
+
+// Item id from news.ycombinator.com/item?id=<id>
+export function getHackerNewsItemId(url: URL): string | null {
+  if (url.hostname.toLowerCase() !== 'news.ycombinator.com' || url.pathname !== '/item') return null;
+  const id = url.searchParams.get('id');
+  return id && /^\d+$/.test(id) ? id : null;
+}
+
+// HN does not publish comment scores, so minScore only ever filters Reddit threads
+function toCommentNodes(items: HackerNewsItem[]): CommentNode[] {
+  return items
+    .filter(item => item.type === 'comment')
+    .map(item => ({
+      author: item.author || '[deleted]',
+      score: item.points,
+      createdAt: item.created_at,
+      body: item.text ? htmlToMarkdown(item.text) : '',
+      children: toCommentNodes(item.children || [])
+    }));
+}
+
+// Story (or comment permalink) plus the nested discussion below it
+export const hackerNewsAdapter: SiteAdapter = {
+  name: 'hackernews',
+  matches: (url) => getHackerNewsItemId(url) !== null,
+  async extract(url, options) {
+    const id = getHackerNewsItemId(new URL(url));
+    if (!id) throw new ExtractionError('Unsupported Hacker News URL');
+
+    const item = await fetchJson<HackerNewsItem>(`${HN_ITEM_API}/${id}`, 'Hacker News');
+
+    const title = item.title || `Comment by ${item.author || '[deleted]'}`;
+    const facts = [
+      `**Author:** ${item.author || '[deleted]'}`,
+      item.points !== null ? `**Points:** ${item.points}` : '',
+      `**Posted:** ${item.created_at.slice(0, 10)}`
+    ].filter(Boolean).join(' | ');
+
+    let markdown = `# ${title}\n\n${facts}\n\n`;
+    if (item.url) markdown += `**Link:** ${item.url}\n\n`;
+    if (item.text) markdown += `${htmlToMarkdown(item.text)}\n\n`;
+    markdown += formatCommentsSection(toCommentNodes(item.children || []), options.comments) + '\n';
+
+    const result: ParseResult = {
+      title,
+      markdown,
+      content: `<h1>${escapeHtml(title)}</h1><pre>${escapeHtml(markdown)}</pre>`,
+      textContent: markdown,
+      siteName: 'Hacker News',
+      byline: item.author || undefined,
+      excerpt: item.text ? htmlToMarkdown(item.text).slice(0, 200) : undefined,
+      sourceUrl: url,
+      scrapedAt: new Date().toISOString(),
+      wordCount: countWords(markdown)
+    };
+    return result;
+  }
+};
@@ -0,0 +1,82 @@
+import { ExtractionError } from './types';
+
+export const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// One set of timeouts for every route
+export const PAGE_TIMEOUT_MS = 15000;
+export const METADATA_TIMEOUT_MS = 8000;
+export const OEMBED_TIMEOUT_MS = 5000;
+export const TRANSCRIPT_TIMEOUT_MS = 25000;
+
+export async function fetchWithTimeout(url: string, init: RequestInit = {}, timeoutMs = PAGE_TIMEOUT_MS) {
+  return fetch(url, {
+    ...init,
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept-Language': 'en-US,en;q=0.9',
+      ...init.headers
+    },
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+}
+
+// Fetch a URL, turning network and HTTP errors into ExtractionErrors.
+// The body is left unread so callers can decide between text and binary.
+export async function fetchResource(url: string, timeoutMs = PAGE_TIMEOUT_MS) {
+  let response: Response;
+  try {
+    response = await fetchWithTimeout(url, {}, timeoutMs);
+  } catch (e) {
+    const timedOut = e instanceof Error && e.name === 'TimeoutError';
+    throw new ExtractionError(timedOut ? `Timed out fetching page after ${timeoutMs / 1000}s` : 'Failed to fetch page');
+  }
+
+  if (!response.ok) {
+    throw new ExtractionError(`Failed to fetch page: ${response.status} ${response.statusText}`);
+  }
+
+  return response;
+}
+
+// Fetch a page as text
+export async function fetchPage(url: string, timeoutMs = PAGE_TIMEOUT_MS) {
+  const response = await fetchResource(url, timeoutMs);
+  return { response, html: await response.text() };
+}
+
+// Fetch and parse a JSON API response; `source` names the service in error messages
+export async function fetchJson<T>(url: string, source: string, timeoutMs = METADATA_TIMEOUT_MS): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetchWithTimeout(url, { headers: { Accept: 'application/json' } }, timeoutMs);
+  } catch {
+    throw new ExtractionError(`Failed to reach ${source}`);
+  }
+
+  if (response.status === 404) throw new ExtractionError(`${source} item not found`, 404);
+  if (!response.ok) throw new ExtractionError(`${source} error: ${response.status} ${response.statusText}`);
+
+  try {
+    return await response.json() as T;
+  } catch {
+    throw new ExtractionError(`${source} returned an unreadable response`);
+  }
+}
+
+// decodeURIComponent that keeps the raw text when it holds a malformed escape like "100%"
+export function safeDecodeURIComponent(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Last path segment of a URL, the fallback title for files
+export function fileNameFromUrl(url: string) {
+  return safeDecodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+}
+
+export function countWords(text: string) {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
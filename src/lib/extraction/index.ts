@@ -0,0 +1,44 @@
+import type { ParseResult } from '../types';
+import { youtubeAdapter } from './youtube';
+import { youtubePlaylistAdapter } from './playlist';
+import { wikipediaAdapter } from './wikipedia';
+import { githubAdapter } from './github';
+import { redditAdapter } from './reddit';
+import { hackerNewsAdapter } from './hackernews';
+import { arxivAdapter } from './arxiv';
+import { stackExchangeAdapter } from './stackexchange';
+import { webAdapter } from './web';
+import { ExtractionError, type ExtractOptions, type SiteAdapter } from './types';
+
+export { ExtractionError } from './types';
+export type { CommentOptions, ExtractOptions, FeedOptions, SiteAdapter, TranscriptFormat } from './types';
+
+// Checked in order; the generic web adapter must stay last as it matches everything
+const adapters: SiteAdapter[] = [
+  // Before youtubeAdapter, which claims every YouTube URL
+  youtubePlaylistAdapter,
+  youtubeAdapter,
+  wikipediaAdapter,
+  githubAdapter,
+  redditAdapter,
+  hackerNewsAdapter,
+  arxivAdapter,
+  stackExchangeAdapter,
+  webAdapter
+];
+
+export function findAdapter(url: string): SiteAdapter {
+  const parsed = new URL(url);
+  return adapters.find(adapter => adapter.matches(parsed)) || webAdapter;
+}
+
+// Extract any supported URL into the shared ParseResult shape
+export async function extractUrl(url: string, options: ExtractOptions = {}): Promise<ParseResult> {
+  let adapter: SiteAdapter;
+  try {
+    adapter = findAdapter(url);
+  } catch {
+    throw new ExtractionError('Invalid URL format', 400);
+  }
+  return adapter.extract(url, options);
+}
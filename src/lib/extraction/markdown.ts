@@ -0,0 +1,198 @@
+import TurndownService from 'turndown';
+
+// Class-name conventions highlighters use to name a code block's language:
+// language-ts / lang-ts (Prism, highlight.js, most Markdown renderers),
+// highlight-source-ts (GitHub), highlight-python (Sphinx), brush: js (SyntaxHighlighter)
+const LANGUAGE_CLASS = /(?:^|\s)(?:lang(?:uage)?-|highlight-(?:source-)?|brush:\s*)([\w+#.-]+)/i;
+// Hints that switch highlighting off rather than naming a language
+const PLAIN_LANGUAGES = new Set(['none', 'nohighlight', 'plain', 'plaintext', 'text', 'txt']);
+
+// Language of a <pre> block from data-language, then class names on the block, its
+// <code> and up to two wrappers (Sphinx and GitHub put it on the surrounding div).
+// null means no hint at all, '' means highlighting is explicitly off.
+export function codeLanguage(pre: Element): string | null {
+  const code = pre.querySelector('code');
+  const explicit = pre.getAttribute('data-language') ?? pre.getAttribute('data-lang')
+    ?? code?.getAttribute('data-language') ?? code?.getAttribute('data-lang');
+  if (explicit !== null && explicit !== undefined) return PLAIN_LANGUAGES.has(explicit.toLowerCase()) ? '' : explicit;
+
+  const candidates = [code, pre, pre.parentElement, pre.parentElement?.parentElement];
+  for (const el of candidates) {
+    const className = el?.getAttribute('class') || '';
+    // Pandoc: class="sourceCode python"
+    const pandoc = /(?:^|\s)sourceCode\s+([\w+#-]+)/.exec(className)?.[1];
+    const hint = LANGUAGE_CLASS.exec(className)?.[1] || pandoc;
+    if (!hint || hint === 'default') continue;
+    return PLAIN_LANGUAGES.has(hint.toLowerCase()) ? '' : hint.toLowerCase();
+  }
+  return null;
+}
+
+// A fence longer than any backtick run in the code, so code containing ``` stays intact
+export function fenceFor(code: string) {
+  const longest = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+// TeX source of a rendered formula: KaTeX and MathML keep it in an annotation,
+// LaTeXML and Wikipedia in alttext, Wikipedia's fallback image in its alt
+function texSource(el: Element) {
+  const annotation = el.querySelector('annotation[encoding="application/x-tex"]');
+  const tex = annotation?.textContent
+    || el.getAttribute('alttext')
+    || el.querySelector('math[alttext]')?.getAttribute('alttext')
+    || el.querySelector('img.mwe-math-fallback-image-inline, img.mwe-math-fallback-image-display')?.getAttribute('alt')
+    || '';
+  // Wikipedia wraps every formula in {\displaystyle ...}
+  return tex.trim().replace(/^\{\\displaystyle\s*([\s\S]*)\}$/, '$1').trim();
+}
+
+function replaceWithMath(el: Element, tex: string, display: boolean) {
+  const doc = el.ownerDocument;
+  // A span even for display math: Readability turns a text-only div into a <p> and drops its attributes
+  const placeholder = doc.createElement('span');
+  placeholder.setAttribute('data-math', display ? 'display' : 'inline');
+  placeholder.textContent = tex;
+  el.replaceWith(placeholder);
+}
+
+// Rewrite rendered math and highlighted code into forms that survive sanitizing and
+// Readability (which drop MathML annotations, MathJax scripts and class names):
+// formulas become <span data-math> holding their TeX, code blocks get data-language.
+// Run on the raw page before either.
+export function prepareForMarkdown(doc: Document) {
+  doc.querySelectorAll('pre').forEach(pre => {
+    const language = codeLanguage(pre);
+    if (language !== null) pre.setAttribute('data-language', language);
+  });
+  // Line-number gutters would otherwise be read as part of the code
+  doc.querySelectorAll('.linenos, .line-numbers-rows').forEach(el => el.remove());
+
+  // MathJax 2 keeps the TeX in a script next to its rendering
+  doc.querySelectorAll('.MathJax_Preview, .MathJax, .MathJax_Display, .MathJax_SVG, .MathJax_SVG_Display, .MathJax_CHTML').forEach(el => el.remove());
+  doc.querySelectorAll('script[type^="math/tex"]').forEach(script => {
+    const tex = script.textContent?.trim();
+    if (tex) replaceWithMath(script, tex, /mode=display/.test(script.getAttribute('type') || ''));
+  });
+
+  doc.querySelectorAll('.katex-display, .katex, .mwe-math-element, mjx-container, math').forEach(el => {
+    if (!el.isConnected) return; // inside a formula already replaced
+    const tex = texSource(el);
+    if (!tex) return;
+    const display = el.classList.contains('katex-display')
+      || el.getAttribute('display') === 'true' || el.getAttribute('display') === 'block'
+      || el.querySelector('math[display="block"], .mwe-math-fallback-image-display') !== null;
+    replaceWithMath(el, tex, display);
+  });
+}
+
+function tableRows(table: Element) {
+  return Array.from(table.children).flatMap(child => {
+    if (child.nodeName === 'TR') return [child];
+    if (['THEAD', 'TBODY', 'TFOOT'].includes(child.nodeName)) return Array.from(child.children).filter(row => row.nodeName === 'TR');
+    return [];
+  });
+}
+
+function span(cell: Element, attribute: string) {
+  const value = parseInt(cell.getAttribute(attribute) || '1', 10);
+  return Number.isFinite(value) && value > 1 ? Math.min(value, 100) : 1;
+}
+
+// GFM table. Merged cells have no GFM equivalent, so a spanned cell's content is
+// repeated in every position it covers, keeping each row's values under the right
+// column. Tables used for layout (one cell, or cells holding code blocks or other
+// tables) come out as their cells' content instead.
+function tableToMarkdown(table: Element, convert: (html: string) => string) {
+  const rows = tableRows(table).map(row => Array.from(row.children).filter(cell => cell.nodeName === 'TD' || cell.nodeName === 'TH'));
+  const cells = rows.flat();
+  if (cells.length === 0) return '';
+
+  if (cells.length === 1 || cells.some(cell => cell.querySelector('pre, table'))) {
+    return `\n\n${cells.map(cell => convert(cell.innerHTML).trim()).filter(Boolean).join('\n\n')}\n\n`;
+  }
+
+  const grid: string[][] = rows.map(() => []);
+  rows.forEach((row, r) => {
+    let c = 0;
+    for (const cell of row) {
+      while (grid[r][c] !== undefined) c++;
+      const text = convert(cell.innerHTML).trim().replace(/\n+/g, '<br>').replace(/\|/g, '\\|');
+      const colspan = span(cell, 'colspan');
+      const rowspan = Math.min(span(cell, 'rowspan'), rows.length - r);
+      for (let dr = 0; dr < rowspan; dr++) {
+        for (let dc = 0; dc < colspan; dc++) grid[r + dr][c + dc] = text;
+      }
+      c += colspan;
+    }
+  });
+
+  const width = Math.max(...grid.map(row => row.length));
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => row[i] ?? '').join(' | ')} |`;
+  const [header, ...body] = grid;
+  const caption = Array.from(table.children).find(child => child.nodeName === 'CAPTION')?.textContent?.trim();
+
+  return [
+    '\n\n',
+    caption ? `**${caption}**\n\n` : '',
+    line(header),
+    `\n| ${Array(width).fill('---').join(' | ')} |`,
+    ...body.map(row => `\n${line(row)}`),
+    '\n\n'
+  ].join('');
+}
+
+// The single Turndown configuration used for every HTML-to-Markdown conversion
+export function createTurndownService() {
+  const turndownService = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '*'
+  });
+
+  // Keep images with their alt text, drop ones without a source
+  turndownService.addRule('img', {
+    filter: 'img',
+    replacement: function (content, node) {
+      const alt = (node as HTMLElement).getAttribute('alt') || '';
+      const src = (node as HTMLElement).getAttribute('src') || '';
+      return src ? `![${alt}](${src})` : '';
+    }
+  });
+
+  // Every <pre> is a fenced block, with or without an inner <code>
+  turndownService.addRule('codeBlock', {
+    filter: 'pre',
+    replacement: function (content, node) {
+      const code = (node.textContent || '').replace(/\n$/, '');
+      const fence = fenceFor(code);
+      return `\n\n${fence}${codeLanguage(node as HTMLElement) || ''}\n${code}\n${fence}\n\n`;
+    }
+  });
+
+  // TeX left in place by prepareForMarkdown, unescaped
+  turndownService.addRule('math', {
+    filter: (node) => node.nodeType === 1 && (node as HTMLElement).hasAttribute('data-math'),
+    replacement: function (content, node) {
+      const tex = (node.textContent || '').trim();
+      return (node as HTMLElement).getAttribute('data-math') === 'display' ? `\n\n$$\n${tex}\n$$\n\n` : `$${tex}$`;
+    }
+  });
+
+  turndownService.addRule('table', {
+    filter: 'table',
+    replacement: (content, node) => tableToMarkdown(node as HTMLElement, html => turndownService.turndown(html))
+  });
+  turndownService.remove(['script', 'style', 'noscript', 'iframe']);
+
+  return turndownService;
+}
+
+export function htmlToMarkdown(html: string) {
+  return createTurndownService().turndown(html);
+}
+
+export function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,139 @@
+import type { ParseResult } from '../types';
+import { resolveCanonicalUrl } from '../canonical-url';
+
+export type PageMetadata = NonNullable<ParseResult['metadata']>;
+
+// schema.org types that describe the page's main content, preferred over
+// WebSite, BreadcrumbList, Organization and the like when a page lists several
+const CONTENT_TYPES = /Article|BlogPosting|Posting|Report|WebPage|Recipe|HowTo|Review|Product|Event|Book|Course|VideoObject|CreativeWork/;
+
+type JsonLdNode = Record<string, unknown>;
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function clean(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+function isoDate(value: string | undefined) {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Person/Organization nodes, plain strings, or lists of either
+function names(value: unknown): string[] {
+  return asArray(value).flatMap(item => {
+    if (typeof item === 'string') return clean(item) ? [clean(item)!] : [];
+    if (item && typeof item === 'object') {
+      const name = clean((item as JsonLdNode).name);
+      return name ? [name] : [];
+    }
+    return [];
+  });
+}
+
+function imageUrl(value: unknown): string | undefined {
+  const [first] = asArray(value);
+  if (typeof first === 'string') return clean(first);
+  if (first && typeof first === 'object') return clean((first as JsonLdNode).url);
+  return undefined;
+}
+
+function keywordList(value: unknown): string[] {
+  return asArray(value)
+    .flatMap(item => (typeof item === 'string' ? item.split(',') : []))
+    .map(keyword => keyword.trim())
+    .filter(Boolean);
+}
+
+// Every node in every ld+json block, with @graph containers flattened
+function readJsonLd(doc: Document): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+  const visit = (value: unknown) => {
+    for (const item of asArray(value)) {
+      if (!item || typeof item !== 'object') continue;
+      const node = item as JsonLdNode;
+      if (node['@graph']) visit(node['@graph']);
+      if (node['@type']) nodes.push(node);
+    }
+  };
+
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      visit(JSON.parse(script.textContent || ''));
+    } catch {
+      // Malformed blocks are common enough not to be worth a warning
+    }
+  });
+  return nodes;
+}
+
+function mainNode(nodes: JsonLdNode[]) {
+  const typeOf = (node: JsonLdNode) => asArray(node['@type']).join(' ');
+  return nodes.find(node => /Article|BlogPosting|Posting|Report/.test(typeOf(node)))
+    || nodes.find(node => CONTENT_TYPES.test(typeOf(node)));
+}
+
+// <meta property="og:*"> and <meta name="*"> by key, first value wins except for
+// repeatable tags like article:tag, which are collected
+function readMetaTags(doc: Document) {
+  const tags = new Map<string, string[]>();
+  doc.querySelectorAll('meta[content]').forEach(meta => {
+    const key = (meta.getAttribute('property') || meta.getAttribute('name') || meta.getAttribute('itemprop') || '').toLowerCase();
+    const content = clean(meta.getAttribute('content'));
+    if (!key || !content) return;
+    tags.set(key, [...(tags.get(key) || []), content]);
+  });
+  return {
+    get: (...keys: string[]) => keys.map(key => tags.get(key)?.[0]).find(Boolean),
+    all: (key: string) => tags.get(key) || []
+  };
+}
+
+// Normalized page metadata from JSON-LD, OpenGraph, Twitter cards and plain <meta>
+// tags, in that order of preference. Takes the unsanitized page: sanitizing strips
+// the ld+json scripts. Returns undefined when the page publishes none of it.
+export function extractPageMetadata(doc: Document, url: string): PageMetadata | undefined {
+  const node = mainNode(readJsonLd(doc));
+  const meta = readMetaTags(doc);
+
+  const authors = node ? names(node.author || node.creator) : [];
+  const metaAuthor = meta.get('article:author', 'author', 'parsely-author', 'sailthru.author', 'twitter:creator');
+  const publisher = node ? names(node.publisher)[0] : undefined;
+  const section = node ? asArray(node.articleSection).map(clean).find(Boolean) : undefined;
+  const keywords = [
+    ...(node ? keywordList(node.keywords) : []),
+    ...meta.all('article:tag'),
+    ...keywordList(meta.get('keywords', 'news_keywords'))
+  ];
+
+  // First declared URL on the page's own origin; a page can't vouch for another site's URL
+  const canonicalUrl = [doc.querySelector('link[rel="canonical"]')?.getAttribute('href'), meta.get('og:url'), node && clean(node.url)]
+    .map(href => href ? resolveCanonicalUrl(href, url) : null)
+    .find(Boolean) || undefined;
+
+  const metadata: PageMetadata = {
+    title: (node && clean(node.headline || node.name)) || meta.get('og:title', 'twitter:title'),
+    description: (node && clean(node.description)) || meta.get('og:description', 'twitter:description', 'description'),
+    author: authors.length > 0 ? authors.join(', ') : metaAuthor,
+    publishedAt: isoDate((node && clean(node.datePublished || node.dateCreated)) || meta.get('article:published_time', 'datepublished', 'date', 'pubdate', 'dc.date')),
+    modifiedAt: isoDate((node && clean(node.dateModified)) || meta.get('article:modified_time', 'og:updated_time', 'datemodified', 'last-modified')),
+    publisher: publisher || meta.get('og:site_name', 'application-name'),
+    canonicalUrl,
+    section: section || meta.get('article:section'),
+    keywords: keywords.length > 0 ? Array.from(new Set(keywords)) : undefined,
+    type: (node && asArray(node['@type']).map(clean).find(Boolean)) || meta.get('og:type'),
+    image: (node && imageUrl(node.image)) || meta.get('og:image', 'twitter:image'),
+    siteName: meta.get('og:site_name', 'application-name') || publisher,
+    locale: meta.get('og:locale') || (node && clean(node.inLanguage))
+  };
+
+  const present = Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as PageMetadata;
+  return Object.keys(present).length > 0 ? present : undefined;
+}
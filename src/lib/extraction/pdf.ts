@@ -0,0 +1,237 @@
+import { extractTextItems, getDocumentProxy, getMeta } from 'unpdf';
+import type { ParseResult } from '../types';
+import { countWords, fileNameFromUrl } from './http';
+import { escapeHtml } from './markdown';
+import { ExtractionError } from './types';
+
+export const PDF_CONTENT_TYPE = 'application/pdf';
+
+// Lines this much larger than the body text (and short enough) are treated as headings
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+// A vertical gap this many times the font size between lines starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.8;
+
+interface PdfLine {
+  text: string;
+  fontSize: number;
+  y: number;
+}
+
+type PdfBlock = { kind: 'heading'; level: number; text: string } | { kind: 'paragraph'; text: string };
+
+// Content-Type first; servers that send octet-stream still get caught by the extension
+export function isPdfResponse(response: Response, url: string) {
+  const contentType = response.headers.get('content-type')?.toLowerCase() || '';
+  if (contentType.includes(PDF_CONTENT_TYPE)) return true;
+  return contentType.includes('application/octet-stream') && new URL(url).pathname.toLowerCase().endsWith('.pdf');
+}
+
+const roundSize = (size: number) => Math.round(size * 2) / 2;
+
+// pdf.js hands back positioned text runs; glue runs that share a baseline into lines
+function toLines(items: Awaited<ReturnType<typeof extractTextItems>>['items'][number]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+
+  for (const item of items) {
+    if (current && Math.abs(item.y - current.y) > Math.max(2, current.fontSize * 0.5)) {
+      lines.push(current);
+      current = null;
+    }
+
+    if (!current) {
+      current = { text: item.str, fontSize: item.fontSize, y: item.y };
+    } else {
+      current.text += item.str;
+      current.fontSize = Math.max(current.fontSize, item.fontSize);
+    }
+
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text.length > 0);
+}
+
+// Running headers, footers and page numbers repeat at the top or bottom of most pages;
+// they would otherwise break paragraphs that continue across pages
+function stripPageFurniture(pages: PdfLine[][]): PdfLine[][] {
+  const key = (line: PdfLine) => line.text.replace(/\d+/g, '#');
+  const edgeCounts = new Map<string, number>();
+  for (const lines of pages) {
+    const edges = new Set([...lines.slice(0, 2), ...lines.slice(-2)].map(key));
+    for (const edge of edges) edgeCounts.set(edge, (edgeCounts.get(edge) || 0) + 1);
+  }
+
+  const threshold = Math.max(3, Math.ceil(pages.length / 2));
+  return pages.map(lines => lines.filter((line, index) => {
+    const atEdge = index < 2 || index >= lines.length - 2;
+    if (!atEdge) return true;
+    if (/^(page )?\d+( of \d+)?$/i.test(line.text)) return false;
+    return (edgeCounts.get(key(line)) || 0) < threshold;
+  }));
+}
+
+// The most common font size, weighted by characters, is the body text
+function bodyFontSize(pages: PdfLine[][]) {
+  const weights = new Map<number, number>();
+  for (const line of pages.flat()) {
+    const size = roundSize(line.fontSize);
+    weights.set(size, (weights.get(size) || 0) + line.text.length);
+  }
+  let body = 0;
+  let best = -1;
+  for (const [size, weight] of weights) {
+    if (weight > best) {
+      body = size;
+      best = weight;
+    }
+  }
+  return body;
+}
+
+function isHeadingLine(line: PdfLine, bodySize: number) {
+  return bodySize > 0
+    && line.fontSize >= bodySize * HEADING_SIZE_RATIO
+    && line.text.length <= MAX_HEADING_LENGTH
+    && !/[.,;:]$/.test(line.text);
+}
+
+// Heading sizes ranked largest first map onto ##, ### and ####
+function headingLevels(pages: PdfLine[][], bodySize: number) {
+  const sizes = [...new Set(
+    pages.flat().filter(line => isHeadingLine(line, bodySize)).map(line => roundSize(line.fontSize))
+  )].sort((a, b) => b - a);
+  return new Map(sizes.map((size, index) => [size, Math.min(index + 2, 4)]));
+}
+
+function joinLine(paragraph: string, line: string) {
+  if (!paragraph) return line;
+  // Re-join words hyphenated across a line break
+  if (/[a-z]-$/.test(paragraph) && /^[a-z]/.test(line)) return paragraph.slice(0, -1) + line;
+  return `${paragraph} ${line}`;
+}
+
+function toBlocks(lines: PdfLine[], bodySize: number, levels: Map<number, number>): PdfBlock[] {
+  const blocks: PdfBlock[] = [];
+  let paragraph = '';
+  let previous: PdfLine | null = null;
+
+  const flush = () => {
+    if (paragraph) blocks.push({ kind: 'paragraph', text: paragraph });
+    paragraph = '';
+  };
+
+  for (const line of lines) {
+    if (isHeadingLine(line, bodySize)) {
+      flush();
+      const level = levels.get(roundSize(line.fontSize)) || 4;
+      const last = blocks[blocks.length - 1];
+      // Headings that wrap onto a second line arrive as two lines of the same size
+      if (last?.kind === 'heading' && last.level === level && previous && isHeadingLine(previous, bodySize)) {
+        last.text = `${last.text} ${line.text}`;
+      } else {
+        blocks.push({ kind: 'heading', level, text: line.text });
+      }
+    } else {
+      const gap = previous ? Math.abs(previous.y - line.y) : 0;
+      if (previous && (isHeadingLine(previous, bodySize) || gap > line.fontSize * PARAGRAPH_GAP_RATIO)) flush();
+      paragraph = joinLine(paragraph, line.text);
+    }
+    previous = line;
+  }
+  flush();
+
+  return blocks;
+}
+
+function pdfDate(value: unknown) {
+  if (value instanceof Date && !isNaN(value.getTime())) return value.toISOString();
+  return undefined;
+}
+
+function infoString(info: Record<string, unknown>, key: string) {
+  const value = info[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Turn a PDF into Markdown with a marker per page and headings inferred from font size.
+// PDFs have no semantic structure, so headings are a best guess: lines set noticeably
+// larger than the body text.
+export async function parsePdf(data: Uint8Array, url: string): Promise<ParseResult> {
+  let pdf: Awaited<ReturnType<typeof getDocumentProxy>>;
+  try {
+    pdf = await getDocumentProxy(data);
+  } catch (e) {
+    throw new ExtractionError(`Could not read PDF: ${e instanceof Error ? e.message : 'invalid file'}`);
+  }
+
+  const { info } = await getMeta(pdf, { parseDates: true });
+  const { totalPages, items } = await extractTextItems(pdf);
+
+  const pages = stripPageFurniture(items.map(toLines));
+  const bodySize = bodyFontSize(pages);
+  const levels = headingLevels(pages, bodySize);
+
+  if (pages.every(lines => lines.length === 0)) {
+    throw new ExtractionError('PDF has no extractable text (it may be a scanned image)');
+  }
+
+  const markdownParts: string[] = [];
+  const htmlParts: string[] = [];
+  const textParts: string[] = [];
+  const headings: { level: number; text: string }[] = [];
+
+  pages.forEach((lines, index) => {
+    const marker = `Page ${index + 1} of ${totalPages}`;
+    markdownParts.push(`<!-- ${marker} -->`);
+    htmlParts.push(`<!-- ${marker} -->`);
+
+    for (const block of toBlocks(lines, bodySize, levels)) {
+      if (block.kind === 'heading') {
+        headings.push({ level: block.level, text: block.text });
+        markdownParts.push(`${'#'.repeat(block.level)} ${block.text}`);
+        htmlParts.push(`<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`);
+      } else {
+        markdownParts.push(block.text);
+        htmlParts.push(`<p>${escapeHtml(block.text)}</p>`);
+      }
+      textParts.push(block.text);
+    }
+  });
+
+  const fileName = fileNameFromUrl(url).replace(/\.pdf$/i, '');
+  const title = infoString(info, 'Title') || headings[0]?.text || fileName || 'Untitled PDF';
+  const author = infoString(info, 'Author');
+  const textContent = textParts.join('\n\n');
+
+  return {
+    title,
+    markdown: markdownParts.join('\n\n'),
+    content: htmlParts.join('\n'),
+    textContent,
+    siteName: new URL(url).hostname || 'PDF',
+    byline: author,
+    excerpt: textParts.find(text => text.length > 80)?.slice(0, 300),
+    sourceUrl: url,
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(textContent),
+    language: infoString(info, 'Language') || '',
+    headings,
+    pdf: {
+      title: infoString(info, 'Title'),
+      author,
+      subject: infoString(info, 'Subject'),
+      creator: infoString(info, 'Creator'),
+      producer: infoString(info, 'Producer'),
+      createdAt: pdfDate(info.CreationDate),
+      pageCount: totalPages
+    }
+  };
+}
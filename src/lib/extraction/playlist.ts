@@ -0,0 +1,235 @@
+import { JSDOM } from 'jsdom';
+import type { ParseResult } from '../types';
+import { getYouTubeCollection, type YouTubeCollection } from '../canonical-url';
+import { formatTimestamp } from '../export';
+import { countWords, fetchPage, fetchWithTimeout, METADATA_TIMEOUT_MS } from './http';
+import { escapeHtml } from './markdown';
+import { dig, INNERTUBE_CONTEXT, isJsonObject, parseTimestamp, runsText } from './youtube';
+import { ExtractionError, type FeedOptions, type SiteAdapter } from './types';
+
+export const DEFAULT_PLAYLIST_VIDEOS = 50;
+export const MAX_PLAYLIST_VIDEOS = 100;
+// A page holds 100 playlist videos or 30 channel videos
+const MAX_PAGES = 10;
+
+export type PlaylistEntry = NonNullable<ParseResult['playlist']>['entries'][number];
+
+type PlaylistVideo = Omit<PlaylistEntry, 'url'>;
+
+// Approximate lengths for "3 weeks ago"-style ages
+const AGE_UNITS_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30.44 * 24 * 60 * 60 * 1000,
+  year: 365.25 * 24 * 60 * 60 * 1000
+};
+
+// "3 weeks ago" or "Streamed 2 days ago" to an ISO date, counted back from now
+export function relativeDate(age: string, now = Date.now()) {
+  const match = age.match(/(\d+)\s+(second|minute|hour|day|week|month|year)s?\s+ago/i);
+  return match ? new Date(now - Number(match[1]) * AGE_UNITS_MS[match[2].toLowerCase()]).toISOString() : undefined;
+}
+
+function readInitialData(html: string): unknown {
+  const match = html.match(/ytInitialData\s*=\s*({[\s\S]*?});\s*<\/script>/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+const text = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+// First object stored under `key` anywhere in the tree
+function findFirst(node: unknown, key: string): unknown {
+  if (!node || typeof node !== 'object') return undefined;
+  if (isJsonObject(node) && node[key]) return node[key];
+  for (const child of Object.values(node)) {
+    const found = findFirst(child, key);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function toVideo(renderer: Record<string, unknown>, videoId: string): PlaylistVideo {
+  const length = runsText(renderer.lengthText);
+  const duration = Number(renderer.lengthSeconds) || (/^\d+(:\d+)+$/.test(length) ? parseTimestamp(length) / 1000 : 0);
+  // Channel grids have publishedTimeText; playlists end videoInfo with it ("1.2M views • 3 years ago")
+  const infoRuns = dig(renderer, 'videoInfo', 'runs');
+  const lastRun = Array.isArray(infoRuns) ? infoRuns[infoRuns.length - 1] : undefined;
+  const age = runsText(renderer.publishedTimeText) || text(dig(lastRun, 'text')) || '';
+  return {
+    videoId,
+    title: runsText(renderer.title) || videoId,
+    published: relativeDate(age),
+    duration: duration || undefined
+  };
+}
+
+// Videos and the next-page token anywhere in a browse response. Walking the whole tree
+// instead of a fixed path survives YouTube's frequent layout changes.
+function collectVideos(data: unknown) {
+  const videos: PlaylistVideo[] = [];
+  let continuation: string | undefined;
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(visit);
+    if (!isJsonObject(node)) return;
+    const renderer = [node.playlistVideoRenderer, node.videoRenderer, node.gridVideoRenderer].find(isJsonObject);
+    const videoId = text(renderer?.videoId);
+    if (renderer && videoId) {
+      // Deleted and private videos stay listed in playlists but can't be played
+      if (renderer.isPlayable !== false) videos.push(toVideo(renderer, videoId));
+      return;
+    }
+    const token = text(dig(node, 'continuationItemRenderer', 'continuationEndpoint', 'continuationCommand', 'token'));
+    if (token) {
+      continuation = token;
+      return;
+    }
+    Object.values(node).forEach(visit);
+  };
+  visit(data);
+  return { videos, continuation };
+}
+
+function collectionInfo(data: unknown) {
+  const playlist = dig(data, 'metadata', 'playlistMetadataRenderer');
+  const channel = dig(data, 'metadata', 'channelMetadataRenderer');
+  const owner = findFirst(data, 'videoOwnerRenderer') || findFirst(data, 'playlistHeaderRenderer');
+  // "42 videos" in the playlist sidebar or header
+  const stats = dig(findFirst(data, 'playlistSidebarPrimaryInfoRenderer'), 'stats');
+  const count = [runsText(dig(findFirst(data, 'playlistHeaderRenderer'), 'numVideosText')), ...(Array.isArray(stats) ? stats.map(runsText) : [])]
+    .map(line => line.match(/^([\d,.]+)\s+videos?/i)?.[1])
+    .find(Boolean);
+
+  return {
+    title: text(dig(playlist, 'title')) || text(dig(channel, 'title')) || text(dig(data, 'microformat', 'microformatDataRenderer', 'title')) || '',
+    channel: text(dig(channel, 'title')) || runsText(dig(owner, 'title') || dig(owner, 'ownerText')) || undefined,
+    channelId: text(dig(channel, 'externalId')),
+    totalVideos: count ? Number(count.replace(/[,.]/g, '')) : undefined
+  };
+}
+
+async function fetchContinuation(token: string): Promise<unknown> {
+  const response = await fetchWithTimeout('https://www.youtube.com/youtubei/v1/browse', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Origin: 'https://www.youtube.com' },
+    body: JSON.stringify({ context: INNERTUBE_CONTEXT, continuation: token })
+  }, METADATA_TIMEOUT_MS);
+  if (!response.ok) throw new Error(`YouTube browse error: ${response.status}`);
+  return response.json();
+}
+
+// Exact publish dates for the newest 15 videos, from the playlist's or channel's Atom feed
+async function feedDates(query: string) {
+  const dates = new Map<string, string>();
+  try {
+    const response = await fetchWithTimeout(`https://www.youtube.com/feeds/videos.xml?${query}`, {}, METADATA_TIMEOUT_MS);
+    if (!response.ok) return dates;
+    const doc = new JSDOM(await response.text(), { contentType: 'text/xml' }).window.document;
+    for (const entry of Array.from(doc.getElementsByTagName('entry'))) {
+      const videoId = entry.getElementsByTagName('yt:videoId')[0]?.textContent?.trim();
+      const published = Date.parse(entry.getElementsByTagName('published')[0]?.textContent || '');
+      if (videoId && !isNaN(published)) dates.set(videoId, new Date(published).toISOString());
+    }
+  } catch (e) {
+    console.warn('YouTube feed lookup failed:', e);
+  }
+  return dates;
+}
+
+// A playlist or channel becomes an index document listing its videos; `playlist.entries`
+// lets the client turn each video into its own document. Playlists keep their own order
+// (a course runs first lesson to last), channel uploads run newest first.
+export async function parseYouTubeCollection(url: string, collection: YouTubeCollection, options: FeedOptions = {}): Promise<ParseResult> {
+  const pageUrl = collection.kind === 'playlist'
+    ? `https://www.youtube.com/playlist?list=${collection.playlistId}`
+    : `https://www.youtube.com${collection.channelPath}/${collection.tab}`;
+  const { html } = await fetchPage(pageUrl);
+  const data = readInitialData(html);
+  if (!data) throw new ExtractionError('Could not read YouTube playlist page');
+
+  const info = collectionInfo(data);
+  let { videos, continuation } = collectVideos(data);
+  if (!info.title && videos.length === 0) throw new ExtractionError('YouTube playlist not found or private', 404);
+
+  const feedQuery = collection.kind === 'playlist' ? `playlist_id=${collection.playlistId}` : info.channelId ? `channel_id=${info.channelId}` : null;
+  const dates = feedQuery ? await feedDates(feedQuery) : new Map<string, string>();
+  const dated = (items: PlaylistVideo[]) => items.map(video => ({ ...video, published: dates.get(video.videoId) || video.published }));
+  videos = dated(videos);
+
+  const maxItems = Math.min(options.maxItems ?? DEFAULT_PLAYLIST_VIDEOS, MAX_PLAYLIST_VIDEOS);
+  const since = options.since?.getTime();
+  const matches = (video: PlaylistVideo) => since === undefined || (video.published !== undefined && Date.parse(video.published) >= since);
+
+  for (let page = 1; continuation && page < MAX_PAGES; page++) {
+    if (videos.filter(matches).length >= maxItems) break;
+    // Uploads run newest first, so nothing further down can match the date filter
+    if (collection.kind === 'channel' && videos.length > 0 && !matches(videos[videos.length - 1])) break;
+    try {
+      const next = collectVideos(await fetchContinuation(continuation));
+      videos.push(...dated(next.videos));
+      continuation = next.continuation;
+    } catch (e) {
+      console.warn('YouTube playlist page failed:', e);
+      break;
+    }
+  }
+
+  // A video listed twice in a playlist is one document
+  const seen = new Set<string>();
+  const unique = videos.filter(video => {
+    if (seen.has(video.videoId)) return false;
+    seen.add(video.videoId);
+    return true;
+  });
+  const entries: PlaylistEntry[] = unique.filter(matches).slice(0, maxItems).map(video => ({
+    url: `https://www.youtube.com/watch?v=${video.videoId}`,
+    ...video
+  }));
+
+  const title = info.title || `YouTube ${collection.kind}`;
+  const totalVideos = info.totalVideos ?? (continuation ? undefined : unique.length);
+
+  let markdown = `# ${title}\n\n`;
+  if (info.channel) markdown += `**Channel:** ${info.channel} | `;
+  markdown += `**Source:** [YouTube](${url}) | **Videos:** ${entries.length}${totalVideos !== undefined ? ` of ${totalVideos}` : ''}\n\n`;
+  markdown += entries
+    .map(entry => `- [${entry.title}](${entry.url})${entry.duration ? ` · ${formatTimestamp(entry.duration * 1000)}` : ''}${entry.published ? ` · ${entry.published.slice(0, 10)}` : ''}`)
+    .join('\n');
+
+  return {
+    title,
+    markdown: markdown + '\n',
+    content: `<h1>${escapeHtml(title)}</h1><ul>${entries.map(entry => `<li><a href="${escapeHtml(entry.url)}">${escapeHtml(entry.title)}</a></li>`).join('')}</ul>`,
+    textContent: entries.map(entry => entry.title).join('\n'),
+    siteName: 'YouTube',
+    byline: info.channel,
+    sourceUrl: url,
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(markdown),
+    playlist: {
+      kind: collection.kind,
+      title,
+      channel: info.channel,
+      url,
+      totalVideos,
+      entries
+    }
+  };
+}
+
+export const youtubePlaylistAdapter: SiteAdapter = {
+  name: 'youtube-playlist',
+  matches: (url) => getYouTubeCollection(url.href) !== null,
+  async extract(url, options) {
+    const collection = getYouTubeCollection(url);
+    if (!collection) throw new ExtractionError('Not a YouTube playlist or channel URL', 400);
+    return parseYouTubeCollection(url, collection, options.playlist);
+  }
+};
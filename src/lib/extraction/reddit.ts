@@ -0,0 +1,121 @@
+import type { ParseResult } from '../types';
+import { countWords, fetchJson } from './http';
+import { escapeHtml } from './markdown';
+import { formatCommentsSection, type CommentNode } from './comments';
+import { ExtractionError, type SiteAdapter } from './types';
+
+const REDDIT_HOSTS = new Set(['reddit.com', 'www.reddit.com', 'old.reddit.com', 'new.reddit.com', 'np.reddit.com', 'm.reddit.com']);
+// Comments Reddit returns in one response before collapsing the rest into "load more"
+const COMMENT_LIMIT = 500;
+
+interface RedditThing<T> {
+  kind: string;
+  data: T;
+}
+
+interface RedditListing<T> {
+  children: RedditThing<T>[];
+}
+
+interface RedditPost {
+  title: string;
+  author: string;
+  selftext: string;
+  score: number;
+  num_comments: number;
+  created_utc: number;
+  subreddit_name_prefixed: string;
+  url: string;
+  is_self: boolean;
+}
+
+interface RedditComment {
+  author?: string;
+  body?: string;
+  score?: number;
+  score_hidden?: boolean;
+  created_utc?: number;
+  replies?: RedditThing<RedditListing<RedditComment>> | '';
+  count?: number; // on "more" stubs
+}
+
+// Thread id from /r/<sub>/comments/<id>/..., /comments/<id> or redd.it/<id>
+export function getRedditThreadId(url: URL): string | null {
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (host === 'redd.it') return /^[a-z0-9]+$/i.test(segments[0] || '') ? segments[0] : null;
+  if (!REDDIT_HOSTS.has(host)) return null;
+
+  const index = segments.indexOf('comments');
+  const id = index >= 0 ? segments[index + 1] : undefined;
+  return id && /^[a-z0-9]+$/i.test(id) ? id : null;
+}
+
+const isoDate = (seconds?: number) => (seconds ? new Date(seconds * 1000).toISOString() : null);
+
+function toCommentNodes(things: RedditThing<RedditComment>[]): CommentNode[] {
+  const nodes: CommentNode[] = [];
+  for (const thing of things) {
+    if (thing.kind !== 't1') continue;
+    const comment = thing.data;
+    const replies = comment.replies ? comment.replies.data.children : [];
+    const more = replies.find(reply => reply.kind === 'more');
+
+    nodes.push({
+      author: comment.author ? `u/${comment.author}` : '[deleted]',
+      score: comment.score_hidden ? null : comment.score ?? null,
+      createdAt: isoDate(comment.created_utc),
+      body: comment.body || '',
+      children: toCommentNodes(replies),
+      unloadedReplies: more?.data.count || undefined
+    });
+  }
+  return nodes;
+}
+
+// Post plus the full comment tree, from Reddit's public JSON view of the thread
+export const redditAdapter: SiteAdapter = {
+  name: 'reddit',
+  matches: (url) => getRedditThreadId(url) !== null,
+  async extract(url, options) {
+    const id = getRedditThreadId(new URL(url));
+    if (!id) throw new ExtractionError('Unsupported Reddit URL');
+
+    // raw_json=1 returns bodies without HTML entity escaping
+    const [postListing, commentListing] = await fetchJson<[RedditThing<RedditListing<RedditPost>>, RedditThing<RedditListing<RedditComment>>]>(
+      `https://www.reddit.com/comments/${id}.json?raw_json=1&limit=${COMMENT_LIMIT}`,
+      'Reddit'
+    );
+
+    const post = postListing?.data.children[0]?.data;
+    if (!post) throw new ExtractionError('Reddit thread not found', 404);
+
+    const comments = toCommentNodes(commentListing.data.children);
+    const topLevelMore = commentListing.data.children.find(child => child.kind === 'more');
+
+    let markdown = `# ${post.title}\n\n`;
+    markdown += `**Subreddit:** ${post.subreddit_name_prefixed} | **Author:** u/${post.author} | **Score:** ${post.score} | **Posted:** ${isoDate(post.created_utc)?.slice(0, 10)}\n\n`;
+    if (!post.is_self && post.url) markdown += `**Link:** ${post.url}\n\n`;
+    if (post.selftext) markdown += `${post.selftext.trim()}\n\n`;
+    markdown += formatCommentsSection(comments, options.comments);
+    if (topLevelMore?.data.count) {
+      markdown += `\n\n_${topLevelMore.data.count} more comments not loaded._`;
+    }
+    markdown += '\n';
+
+    const result: ParseResult = {
+      title: post.title,
+      markdown,
+      content: `<h1>${escapeHtml(post.title)}</h1><pre>${escapeHtml(markdown)}</pre>`,
+      textContent: markdown,
+      siteName: post.subreddit_name_prefixed,
+      byline: `u/${post.author}`,
+      excerpt: post.selftext ? post.selftext.slice(0, 200) : undefined,
+      sourceUrl: url,
+      scrapedAt: new Date().toISOString(),
+      wordCount: countWords(markdown)
+    };
+    return result;
+  }
+};
@@ -0,0 +1,186 @@
+import { JSDOM } from 'jsdom';
+import type { ParseResult } from '../types';
+import { shiftHeadings } from '../export';
+import { tryCanonicalizeUrl } from '../canonical-url';
+import { countWords, fetchJson } from './http';
+import { codeLanguage, escapeHtml, htmlToMarkdown } from './markdown';
+import { ExtractionError, type SiteAdapter } from './types';
+
+const API_BASE = 'https://api.stackexchange.com/2.3';
+// Sites hosted outside *.stackexchange.com, by hostname
+const SITE_PARAMS: Record<string, string> = {
+  'stackoverflow.com': 'stackoverflow',
+  'superuser.com': 'superuser',
+  'serverfault.com': 'serverfault',
+  'askubuntu.com': 'askubuntu',
+  'mathoverflow.net': 'mathoverflow.net',
+  'stackapps.com': 'stackapps'
+};
+const SITE_NAMES: Record<string, string> = {
+  stackoverflow: 'Stack Overflow',
+  superuser: 'Super User',
+  serverfault: 'Server Fault',
+  askubuntu: 'Ask Ubuntu',
+  'mathoverflow.net': 'MathOverflow',
+  stackapps: 'Stack Apps'
+};
+// Tags that name a language, used when a code block carries no language hint of its own
+const LANGUAGE_TAGS = new Set([
+  'javascript', 'typescript', 'python', 'java', 'c#', 'php', 'c++', 'c', 'ruby', 'go', 'rust', 'swift',
+  'kotlin', 'scala', 'r', 'sql', 'bash', 'shell', 'powershell', 'html', 'css', 'json', 'yaml', 'haskell',
+  'perl', 'lua', 'dart', 'elixir', 'objective-c', 'matlab'
+]);
+const TAG_LANGUAGES: Record<string, string> = { 'c#': 'csharp', 'c++': 'cpp', 'objective-c': 'objectivec', shell: 'bash' };
+
+interface StackUser {
+  display_name?: string;
+}
+
+interface StackPost {
+  body: string; // HTML
+  score: number;
+  owner?: StackUser;
+  creation_date: number;
+}
+
+interface StackQuestion extends StackPost {
+  question_id: number;
+  title: string;
+  tags: string[];
+  link: string;
+  accepted_answer_id?: number;
+  answer_count: number;
+  view_count: number;
+  is_answered: boolean;
+}
+
+interface StackAnswer extends StackPost {
+  answer_id: number;
+  question_id: number;
+  is_accepted: boolean;
+}
+
+interface StackResponse<T> {
+  items: T[];
+}
+
+type StackTarget = { site: string; questionId?: string; answerId?: string };
+
+function siteForHost(hostname: string): string | null {
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+  if (SITE_PARAMS[host]) return SITE_PARAMS[host];
+  // unix.stackexchange.com -> unix; meta sites are left to the web adapter
+  const match = host.match(/^([a-z0-9-]+)\.stackexchange\.com$/);
+  return match && match[1] !== 'meta' ? match[1] : null;
+}
+
+// Questions (/questions/<id>, /q/<id>) and answer permalinks (/a/<id>) on any Stack Exchange site
+export function parseStackExchangeUrl(url: URL): StackTarget | null {
+  const site = siteForHost(url.hostname);
+  if (!site) return null;
+
+  const [section, id, maybeAnswerId] = url.pathname.split('/').filter(Boolean);
+  if (!id || !/^\d+$/.test(id)) return null;
+  if (section === 'questions' || section === 'q') {
+    // /questions/<qid>/<slug>/<aid> is how Stack Overflow links to one answer
+    return { site, questionId: id, ...(/^\d+$/.test(maybeAnswerId || '') ? { answerId: maybeAnswerId } : {}) };
+  }
+  if (section === 'a') return { site, answerId: id };
+  return null;
+}
+
+async function stackApi<T>(path: string, site: string, params: Record<string, string> = {}) {
+  const query = new URLSearchParams({ site, filter: 'withbody', ...params });
+  if (process.env.STACKEXCHANGE_KEY) query.set('key', process.env.STACKEXCHANGE_KEY);
+  const response = await fetchJson<StackResponse<T>>(`${API_BASE}${path}?${query}`, 'Stack Exchange');
+  return response.items;
+}
+
+// Titles and names come back HTML-encoded
+function decodeEntities(text: string) {
+  return JSDOM.fragment(`<p>${text}</p>`).textContent || text;
+}
+
+// Code blocks without a lang-*/language-* hint of their own take the question's
+// language tag; lang-default defers to the tags, as on the site
+function tagCodeBlocks(html: string, fallbackLanguage: string) {
+  const container = new JSDOM('').window.document.createElement('div');
+  container.innerHTML = html;
+  container.querySelectorAll('pre').forEach(pre => {
+    if (codeLanguage(pre) === null) pre.setAttribute('data-language', fallbackLanguage);
+  });
+  return container.innerHTML;
+}
+
+function postMarkdown(post: StackPost, fallbackLanguage: string) {
+  return shiftHeadings(htmlToMarkdown(tagCodeBlocks(post.body, fallbackLanguage)).trim(), 2);
+}
+
+function byline(post: StackPost) {
+  const author = post.owner?.display_name ? decodeEntities(post.owner.display_name) : 'a deleted user';
+  const date = new Date(post.creation_date * 1000).toISOString().slice(0, 10);
+  return `by ${author} on ${date}`;
+}
+
+const votes = (score: number) => `${score} vote${Math.abs(score) === 1 ? '' : 's'}`;
+
+// Question, accepted answer first, then the remaining answers by score
+export const stackExchangeAdapter: SiteAdapter = {
+  name: 'stackexchange',
+  matches: (url) => parseStackExchangeUrl(url) !== null,
+  async extract(url) {
+    const target = parseStackExchangeUrl(new URL(url));
+    if (!target) throw new ExtractionError('Unsupported Stack Exchange URL');
+
+    let questionId = target.questionId;
+    if (!questionId && target.answerId) {
+      const [answer] = await stackApi<StackAnswer>(`/answers/${target.answerId}`, target.site);
+      if (!answer) throw new ExtractionError('Stack Exchange answer not found', 404);
+      questionId = String(answer.question_id);
+    }
+
+    const [[question], answers] = await Promise.all([
+      stackApi<StackQuestion>(`/questions/${questionId}`, target.site),
+      stackApi<StackAnswer>(`/questions/${questionId}/answers`, target.site, { sort: 'votes', order: 'desc', pagesize: '100' })
+    ]);
+    if (!question) throw new ExtractionError('Stack Exchange question not found', 404);
+
+    const languageTag = question.tags.find(tag => LANGUAGE_TAGS.has(tag));
+    const fallbackLanguage = languageTag ? TAG_LANGUAGES[languageTag] || languageTag : '';
+    const ordered = [...answers].sort((a, b) => Number(b.is_accepted) - Number(a.is_accepted) || b.score - a.score);
+
+    const title = decodeEntities(question.title);
+    const siteName = SITE_NAMES[target.site] || new URL(url).hostname;
+    const facts = [
+      `**Site:** ${siteName}`,
+      `**Score:** ${question.score}`,
+      `**Answers:** ${question.answer_count}`,
+      `**Views:** ${question.view_count}`,
+      `**Tags:** ${question.tags.join(', ')}`
+    ].join(' | ');
+
+    let markdown = `# ${title}\n\n${facts}\n\n`;
+    markdown += `## Question (${votes(question.score)}) ${byline(question)}\n\n${postMarkdown(question, fallbackLanguage)}\n\n`;
+    for (const answer of ordered) {
+      const label = answer.is_accepted ? 'Accepted answer' : 'Answer';
+      const linked = target.answerId === String(answer.answer_id) ? ' (linked)' : '';
+      markdown += `## ${label}${linked} (${votes(answer.score)}) ${byline(answer)}\n\n${postMarkdown(answer, fallbackLanguage)}\n\n`;
+    }
+    if (ordered.length === 0) markdown += '_No answers yet._\n';
+
+    const result: ParseResult = {
+      title,
+      markdown: markdown.trimEnd() + '\n',
+      content: `<h1>${escapeHtml(title)}</h1><pre>${escapeHtml(markdown)}</pre>`,
+      textContent: markdown,
+      siteName,
+      byline: question.owner?.display_name ? decodeEntities(question.owner.display_name) : undefined,
+      excerpt: htmlToMarkdown(question.body).slice(0, 200),
+      sourceUrl: url,
+      canonicalUrl: tryCanonicalizeUrl(question.link) || undefined,
+      scrapedAt: new Date().toISOString(),
+      wordCount: countWords(markdown)
+    };
+    return result;
+  }
+};
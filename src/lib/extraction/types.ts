@@ -0,0 +1,57 @@
+import type { ParseResult } from '../types';
+import type { YouTubeTimeRange } from '../canonical-url';
+
+export interface ExtractOptions {
+  // 'defer' returns YouTube metadata immediately with needsTranscript set, for the
+  // two-phase flow in the UI; 'inline' waits for the transcript in the same request.
+  transcript?: 'defer' | 'inline';
+  // How an inline transcript is laid out
+  transcriptFormat?: TranscriptFormat;
+  // Preferred caption languages for an inline transcript, most wanted first
+  transcriptLanguages?: string[];
+  // Only the captions in this part of the video; defaults to the URL's t=/start=/end=
+  transcriptRange?: YouTubeTimeRange;
+  // Discussion threads (Reddit, Hacker News): replies deeper than maxDepth levels and
+  // comments scoring below minScore are left out, along with their replies
+  comments?: CommentOptions;
+  // RSS/Atom feeds: only entries published on or after `since`, newest first, at most maxItems
+  feed?: FeedOptions;
+  // YouTube playlists and channel uploads: the same since/maxItems filters
+  playlist?: FeedOptions;
+}
+
+export interface CommentOptions {
+  maxDepth?: number;
+  minScore?: number;
+}
+
+export interface TranscriptFormat {
+  // 'lines' keeps one line per caption fragment; 'paragraphs' merges fragments into
+  // sentence-complete paragraphs
+  mode?: 'lines' | 'paragraphs';
+  // A timestamp on every line or paragraph ('each', the default), at most one every
+  // N seconds, or none at all
+  timestamps?: 'each' | 'none' | number;
+}
+
+export interface FeedOptions {
+  since?: Date;
+  maxItems?: number;
+}
+
+// A site adapter turns one kind of URL into a ParseResult.
+// Register new adapters in ./index.ts; the first adapter whose `matches` returns true wins.
+export interface SiteAdapter {
+  name: string;
+  matches(url: URL): boolean;
+  extract(url: string, options: ExtractOptions): Promise<ParseResult>;
+}
+
+// Thrown for failures the caller should report to the user (bad upstream response,
+// unparseable page). Routes turn it into a 422; anything else is a 500.
+export class ExtractionError extends Error {
+  constructor(message: string, public status = 422) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
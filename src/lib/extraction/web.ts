@@ -0,0 +1,155 @@
+import { JSDOM } from 'jsdom';
+import { Readability } from '@mozilla/readability';
+import DOMPurify from 'isomorphic-dompurify';
+import type { ParseResult } from '../types';
+import { fetchPage, fetchResource, countWords } from './http';
+import { isPdfResponse, parsePdf } from './pdf';
+import { isFeedResponse, parseFeed } from './feed';
+import { htmlToMarkdown, prepareForMarkdown } from './markdown';
+import { extractPageMetadata } from './metadata';
+import { ExtractionError, type SiteAdapter } from './types';
+
+// --- Extraction Helper Functions ---
+
+export function extractHeadings(doc: Document): { level: number; text: string }[] {
+  const headings: { level: number; text: string }[] = [];
+  const headingElements = doc.querySelectorAll('h1, h2, h3, h4, h5, h6');
+  headingElements.forEach((el) => {
+    const level = parseInt(el.tagName.charAt(1));
+    const text = el.textContent?.trim() || '';
+    if (text) {
+      headings.push({ level, text });
+    }
+  });
+  return headings;
+}
+
+export function extractLinks(doc: Document, baseUrl: string, limit = 100): { text: string; href: string }[] {
+  const links: { text: string; href: string }[] = [];
+  const seenHrefs = new Set<string>();
+  const anchorElements = doc.querySelectorAll('a[href]');
+
+  for (const el of anchorElements) {
+    if (links.length >= limit) break;
+
+    const href = el.getAttribute('href');
+    if (!href) continue;
+
+    // Resolve relative URLs
+    let absoluteHref: string;
+    try {
+      absoluteHref = new URL(href, baseUrl).href;
+    } catch {
+      continue;
+    }
+
+    // Skip internal anchors and duplicates
+    if (absoluteHref.startsWith('#') || seenHrefs.has(absoluteHref)) continue;
+    seenHrefs.add(absoluteHref);
+
+    const text = el.textContent?.trim() || '';
+    if (text && absoluteHref) {
+      links.push({ text, href: absoluteHref });
+    }
+  }
+
+  return links;
+}
+
+export function extractImages(doc: Document, baseUrl: string): { src: string; alt: string }[] {
+  const images: { src: string; alt: string }[] = [];
+  const imgElements = doc.querySelectorAll('img[src]');
+
+  imgElements.forEach((el) => {
+    const src = el.getAttribute('src');
+    if (!src) return;
+
+    // Resolve relative URLs
+    let absoluteSrc: string;
+    try {
+      absoluteSrc = new URL(src, baseUrl).href;
+    } catch {
+      return;
+    }
+
+    const alt = el.getAttribute('alt') || '';
+    images.push({ src: absoluteSrc, alt });
+  });
+
+  return images;
+}
+
+// Run an HTML page through DOMPurify, Readability and Turndown.
+// Returns the raw HTML too so site adapters can mine it for extra data.
+export async function scrapeWebPage(url: string): Promise<{ result: ParseResult; html: string }> {
+  const { html } = await fetchPage(url);
+  return { result: parseHtml(html, url), html };
+}
+
+export function parseHtml(html: string, url: string): ParseResult {
+  // Read what sanitizing would strip first: ld+json metadata, the TeX behind rendered
+  // math and the class names that carry code languages
+  const raw = new JSDOM(html, { url }).window.document;
+  const metadata = extractPageMetadata(raw, url);
+  prepareForMarkdown(raw);
+
+  const cleanHtml = DOMPurify.sanitize(raw.documentElement.outerHTML, { WHOLE_DOCUMENT: true, ADD_TAGS: ['link', 'meta'] });
+  const dom = new JSDOM(cleanHtml, { url });
+  const doc = dom.window.document;
+
+  // Extract structured data before Readability modifies the DOM
+  const language = doc.documentElement.getAttribute('lang') || '';
+  const headings = extractHeadings(doc);
+  const links = extractLinks(doc, url);
+  const images = extractImages(doc, url);
+
+  // The page's own canonical URL, when it declares one on its own origin
+  const canonicalUrl = metadata?.canonicalUrl;
+
+  const reader = new Readability(doc);
+  const article = reader.parse();
+
+  if (!article || !article.content) {
+    throw new ExtractionError('Readability could not parse content');
+  }
+
+  const textContent = article.textContent || '';
+
+  return {
+    title: article.title || 'Untitled',
+    markdown: htmlToMarkdown(article.content),
+    content: article.content,
+    textContent,
+    siteName: article.siteName || new URL(url).hostname,
+    byline: article.byline || metadata?.author,
+    excerpt: article.excerpt || metadata?.description,
+    sourceUrl: url,
+    ...(canonicalUrl ? { canonicalUrl } : {}),
+    scrapedAt: new Date().toISOString(),
+    wordCount: countWords(textContent),
+    language,
+    headings,
+    links,
+    images,
+    ...(metadata ? { metadata } : {})
+  };
+}
+
+// Fallback for any URL no other adapter claims. PDFs and feeds are spotted by content
+// type, since plenty of them are served from URLs without a telling extension.
+export const webAdapter: SiteAdapter = {
+  name: 'web',
+  matches: () => true,
+  async extract(url, options) {
+    const response = await fetchResource(url);
+    if (isPdfResponse(response, url)) {
+      return parsePdf(new Uint8Array(await response.arrayBuffer()), url);
+    }
+
+    const body = await response.text();
+    if (isFeedResponse(response.headers.get('content-type') || '', body)) {
+      return parseFeed(body, url, options.feed);
+    }
+    return parseHtml(body, url);
+  }
+};
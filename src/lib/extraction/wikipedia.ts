@@ -0,0 +1,64 @@
+import { JSDOM } from 'jsdom';
+import type { ParseResult } from '../types';
+import { scrapeWebPage } from './web';
+import type { SiteAdapter } from './types';
+
+type WikipediaData = NonNullable<ParseResult['wikipedia']>;
+
+export function extractWikipediaData(doc: Document): WikipediaData {
+  const result: WikipediaData = {};
+
+  // Extract infobox data
+  const infobox = doc.querySelector('.infobox');
+  if (infobox) {
+    const infoboxData: Record<string, string> = {};
+    const rows = infobox.querySelectorAll('tr');
+    rows.forEach((row) => {
+      const th = row.querySelector('th');
+      const td = row.querySelector('td');
+      if (th && td) {
+        const key = th.textContent?.trim() || '';
+        const value = td.textContent?.trim() || '';
+        if (key && value) {
+          infoboxData[key] = value;
+        }
+      }
+    });
+    if (Object.keys(infoboxData).length > 0) {
+      result.infobox = infoboxData;
+    }
+  }
+
+  // Extract categories
+  const categoryLinks = doc.querySelectorAll('#mw-normal-catlinks ul li a');
+  if (categoryLinks.length > 0) {
+    result.categories = Array.from(categoryLinks)
+      .map((el) => el.textContent?.trim() || '')
+      .filter((text) => text.length > 0);
+  }
+
+  // Extract references (citation text)
+  const refList = doc.querySelectorAll('.references li');
+  if (refList.length > 0) {
+    result.references = Array.from(refList)
+      .slice(0, 50) // Limit to 50 references
+      .map((el) => el.textContent?.trim() || '')
+      .filter((text) => text.length > 0);
+  }
+
+  return result;
+}
+
+// Generic web extraction plus infobox, categories and references
+export const wikipediaAdapter: SiteAdapter = {
+  name: 'wikipedia',
+  matches: (url) => url.hostname.endsWith('wikipedia.org'),
+  async extract(url) {
+    const { result, html } = await scrapeWebPage(url);
+
+    // Re-parse original HTML for Wikipedia extraction (without sanitization to preserve Wikipedia classes)
+    const wikipedia = extractWikipediaData(new JSDOM(html, { url }).window.document);
+
+    return Object.keys(wikipedia).length > 0 ? { ...result, wikipedia } : result;
+  }
+};
@@ -0,0 +1,498 @@
+import { JSDOM } from 'jsdom';
+import { YoutubeTranscript } from '@danielxceron/youtube-transcript';
+import type { CaptionTrack, ParseResult } from '../types';
+import { getYouTubeTimeRange, getYouTubeVideoId, parseYouTubeTime, type YouTubeTimeRange } from '../canonical-url';
+import { formatChapterList, formatTimestamp } from '../export';
+import { fetchWithTimeout, countWords, USER_AGENT, METADATA_TIMEOUT_MS, OEMBED_TIMEOUT_MS, TRANSCRIPT_TIMEOUT_MS } from './http';
+import type { SiteAdapter, TranscriptFormat } from './types';
+
+export interface YouTubeMetadata {
+  title: string;
+  channel: string;
+  description: string;
+}
+
+export type YouTubeChapter = NonNullable<ParseResult['youtube']>['chapters'][number];
+
+export interface TranscriptItem {
+  text: string;
+  offset: number; // ms
+  duration: number; // ms
+}
+
+// A single video in any of its URL forms (see getYouTubeVideoId). Channel pages,
+// playlists and the rest of youtube.com are not videos.
+export const isYoutubeUrl = (url: string) => {
+  return getYouTubeVideoId(url) !== null;
+};
+
+// The plain watch URL for any form of a video URL, which oEmbed and the transcript
+// library understand; other URLs are returned unchanged
+export function watchUrl(url: string) {
+  const videoId = getYouTubeVideoId(url);
+  return videoId ? `https://www.youtube.com/watch?v=${videoId}` : url;
+}
+
+// Helper to get YouTube metadata using oEmbed API (primary) with HTML scraping fallback for description
+export async function getYouTubeMetadata(url: string): Promise<YouTubeMetadata | null> {
+  const metadata = {
+    title: 'Unknown Title',
+    channel: 'YouTube',
+    description: ''
+  };
+
+  // Primary: Use oEmbed API (fast and reliable)
+  try {
+    const oembedUrl = `https://www.youtube.com/oembed?url=${encodeURIComponent(url)}&format=json`;
+    const oembedRes = await fetchWithTimeout(oembedUrl, {}, OEMBED_TIMEOUT_MS);
+
+    if (oembedRes.ok) {
+      const oembedData = await oembedRes.json();
+      metadata.title = oembedData.title || metadata.title;
+      metadata.channel = oembedData.author_name || metadata.channel;
+    }
+  } catch (e) {
+    console.warn('oEmbed fetch failed, will try HTML scraping:', e);
+  }
+
+  // Secondary: Try to get full description from HTML (oEmbed doesn't include description)
+  try {
+    const response = await fetchWithTimeout(url, {}, METADATA_TIMEOUT_MS);
+
+    if (response.ok) {
+      const html = await response.text();
+      const dom = new JSDOM(html);
+      const doc = dom.window.document;
+
+      // Fallback for title/channel if oEmbed failed
+      if (metadata.title === 'Unknown Title') {
+        metadata.title = doc.querySelector('meta[property="og:title"]')?.getAttribute('content') || doc.title || metadata.title;
+      }
+      if (metadata.channel === 'YouTube') {
+        const itempropName = doc.querySelector('link[itemprop="name"]')?.getAttribute('content');
+        metadata.channel = itempropName || metadata.channel;
+      }
+
+      // Get description from OG meta tag first
+      metadata.description = doc.querySelector('meta[property="og:description"]')?.getAttribute('content') || '';
+
+      // Try to get full description from ytInitialData (more complete than OG)
+      try {
+        const description = extractDescription(html);
+        if (description) metadata.description = description;
+      } catch (e) {
+        // ytInitialData parsing failed, but we may have OG description
+        console.warn('ytInitialData parsing failed:', e);
+      }
+    }
+  } catch (e) {
+    console.warn('HTML scraping failed:', e);
+  }
+
+  // Return null only if we couldn't get ANY metadata
+  if (metadata.title === 'Unknown Title' && metadata.channel === 'YouTube') {
+    return null;
+  }
+
+  return metadata;
+}
+
+// ytInitialData and InnerTube responses are untyped JSON, read as `unknown` and narrowed
+// one step at a time
+type JsonObject = Record<string, unknown>;
+
+export function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The value at `path` below `value`, or undefined where a step is missing
+export function dig(value: unknown, ...path: string[]): unknown {
+  return path.reduce<unknown>((node, key) => isJsonObject(node) ? node[key] : undefined, value);
+}
+
+// Text of a { simpleText } or { runs: [{ text }] } field
+export function runsText(value: unknown): string {
+  const simpleText = dig(value, 'simpleText');
+  if (typeof simpleText === 'string') return simpleText;
+  const runs = dig(value, 'runs');
+  return Array.isArray(runs) ? runs.map(run => String(dig(run, 'text') ?? '')).join('') : '';
+}
+
+function extractDescription(html: string): string | null {
+  const match = html.match(/var ytInitialData = ({.*?});/);
+  if (!match || !match[1]) return null;
+
+  const data: unknown = JSON.parse(match[1]);
+  const contents = dig(data, 'contents', 'twoColumnWatchNextResults', 'results', 'results', 'contents');
+  if (!Array.isArray(contents)) return null;
+
+  const secondaryInfo = contents.map(item => dig(item, 'videoSecondaryInfoRenderer')).find(isJsonObject);
+  const attributed = dig(secondaryInfo, 'attributedDescription', 'content');
+  if (typeof attributed === 'string' && attributed) {
+    return attributed;
+  }
+  return runsText(dig(secondaryInfo, 'description')) || null;
+}
+
+const TIMESTAMP = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}`;
+// "00:00 Intro", "- [1:02:03] Q&A", "Intro - 0:00"
+const CHAPTER_LINE = new RegExp(String.raw`^\s*(?:[-*•▶►]\s*)?[\[(]?(${TIMESTAMP})[\])]?\s*[-–—:|]?\s*(.+)$`);
+const CHAPTER_LINE_TIME_LAST = new RegExp(String.raw`^\s*(?:[-*•▶►]\s*)?(.+?)\s*[-–—:|]?\s*[\[(]?(${TIMESTAMP})[\])]?\s*$`);
+
+// "1:02:03" or "12:34" to milliseconds
+export function parseTimestamp(value: string) {
+  return value.split(':').reduce((total, part) => total * 60 + Number(part), 0) * 1000;
+}
+
+// Chapter markers from a video description, by YouTube's own rules: the first
+// starts at 0:00, there are at least three, and they run in ascending order.
+// Anything else (a single "see 12:34" mention, a timestamped tracklist that
+// doesn't start at zero) is not treated as chapters.
+export function parseChapters(description: string): YouTubeChapter[] {
+  const chapters: YouTubeChapter[] = [];
+  for (const line of description.split('\n')) {
+    const timeFirst = line.match(CHAPTER_LINE);
+    const timeLast = timeFirst ? null : line.match(CHAPTER_LINE_TIME_LAST);
+    const [timestamp, title] = timeFirst ? [timeFirst[1], timeFirst[2]] : timeLast ? [timeLast[2], timeLast[1]] : [];
+    if (!timestamp || !title?.trim()) continue;
+
+    const start = parseTimestamp(timestamp);
+    if (chapters.length === 0 && start !== 0) continue;
+    if (chapters.length > 0 && start <= chapters[chapters.length - 1].start) break;
+    chapters.push({ title: title.trim(), start });
+  }
+  return chapters.length >= 3 ? chapters : [];
+}
+
+// Chapters sent back by the client for the transcript phase
+export function isChapterList(value: unknown): value is YouTubeChapter[] {
+  return Array.isArray(value) && value.every(chapter =>
+    typeof chapter?.title === 'string' && typeof chapter?.start === 'number' && Number.isFinite(chapter.start)
+  );
+}
+
+// Helper to fetch transcript with timeout. Resolves to null when captions are
+// unavailable or the request times out. `lang` picks the caption track by its exact
+// language code; without it the video's default track is used.
+export async function fetchTranscriptWithTimeout(url: string, timeoutMs = TRANSCRIPT_TIMEOUT_MS, lang?: string): Promise<TranscriptItem[] | null> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const transcriptPromise = YoutubeTranscript.fetchTranscript(watchUrl(url), lang ? { lang } : undefined);
+    const timeoutPromise = new Promise<null>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new Error('Transcript fetch timed out')), timeoutMs);
+    });
+    const transcript = await Promise.race([transcriptPromise, timeoutPromise]);
+    return transcript && transcript.length > 0 ? transcript : null;
+  } catch (e) {
+    console.error('Transcript fetch failed:', e);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Client identity for YouTube's InnerTube API (the JSON API behind the web player)
+export const INNERTUBE_CONTEXT = { client: { clientName: 'WEB', clientVersion: '2.20250312.04.00', userAgent: USER_AGENT } };
+
+// Caption tracks from the InnerTube player API (the same source the transcript library
+// reads), in YouTube's order. Empty when the video has none or the lookup fails.
+export async function listCaptionTracks(url: string): Promise<CaptionTrack[]> {
+  const videoId = getYouTubeVideoId(url);
+  if (!videoId) return [];
+  try {
+    const response = await fetchWithTimeout('https://www.youtube.com/youtubei/v1/player', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'https://www.youtube.com' },
+      body: JSON.stringify({ context: INNERTUBE_CONTEXT, videoId })
+    }, METADATA_TIMEOUT_MS);
+    if (!response.ok) return [];
+    const data: unknown = await response.json();
+    const tracks = dig(data, 'captions', 'playerCaptionsTracklistRenderer', 'captionTracks');
+    if (!Array.isArray(tracks)) return [];
+    return tracks.filter(isJsonObject).map(track => ({
+      languageCode: String(track.languageCode),
+      name: runsText(track.name) || String(track.languageCode),
+      autoGenerated: track.kind === 'asr'
+    }));
+  } catch (e) {
+    console.warn('Caption track lookup failed:', e);
+    return [];
+  }
+}
+
+// First preferred language with a track wins. "de" also matches "de-DE" and the other
+// way round; for one language a manual track beats an auto-generated one. With no
+// match the video's default (first) track is used.
+export function chooseCaptionTrack(tracks: CaptionTrack[], languages: string[] = []): CaptionTrack | null {
+  const base = (code: string) => code.toLowerCase().split('-')[0];
+  for (const language of languages) {
+    const matches = tracks.filter(track => track.languageCode.toLowerCase() === language.toLowerCase());
+    const candidates = matches.length > 0 ? matches : tracks.filter(track => base(track.languageCode) === base(language));
+    const track = candidates.find(candidate => !candidate.autoGenerated) || candidates[0];
+    if (track) return track;
+  }
+  return tracks[0] || null;
+}
+
+// Transcript in the best available language, with the track it came from
+export async function fetchCaptions(url: string, languages: string[] = []) {
+  const tracks = await listCaptionTracks(url);
+  const track = chooseCaptionTrack(tracks, languages);
+  const transcript = await fetchTranscriptWithTimeout(url, TRANSCRIPT_TIMEOUT_MS, track?.languageCode);
+  return { transcript, track: transcript ? track : null, tracks };
+}
+
+// The part of the video a transcript request wants: start/end in the body (seconds, or
+// "1:02:03" / "1m30s"), each falling back to the video URL's own t=/start=/end=.
+// Empty for the whole video. Returns an error message instead of throwing on bad input.
+export function parseTranscriptRange(body: { url?: unknown; start?: unknown; end?: unknown }): YouTubeTimeRange | string {
+  const fromUrl = typeof body.url === 'string' ? getYouTubeTimeRange(body.url) : {};
+  const read = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return undefined;
+    return typeof value === 'number' || typeof value === 'string' ? parseYouTubeTime(String(value)) : null;
+  };
+
+  const start = read(body.start);
+  if (start === null) return 'start must be seconds or a timestamp like 1:02:03';
+  const end = read(body.end);
+  if (end === null) return 'end must be seconds or a timestamp like 1:02:03';
+
+  const range = { start: start ?? fromUrl.start, end: end ?? fromUrl.end };
+  if (range.start !== undefined && range.end !== undefined && range.end <= range.start) return 'end must be after start';
+  return {
+    ...(range.start ? { start: range.start } : {}),
+    ...(range.end !== undefined ? { end: range.end } : {})
+  };
+}
+
+// Captions overlapping the range; a caption running across either edge is kept whole
+export function clipTranscript(transcript: TranscriptItem[], range: YouTubeTimeRange = {}) {
+  const start = range.start ?? 0;
+  const end = range.end ?? Infinity;
+  return transcript.filter(item => item.offset + item.duration > start && item.offset < end);
+}
+
+function describeRange(range: YouTubeTimeRange) {
+  if (range.start !== undefined && range.end !== undefined) return `${formatTimestamp(range.start)}–${formatTimestamp(range.end)}`;
+  return range.start !== undefined ? `from ${formatTimestamp(range.start)}` : `up to ${formatTimestamp(range.end!)}`;
+}
+
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+// `languages` of a transcript request body: an array or comma-separated list of codes
+// like "de", "ja" or "en-US". Returns an error message instead of throwing on bad input.
+export function parseTranscriptLanguages(body: { languages?: unknown }): string[] | string {
+  const { languages } = body;
+  if (languages === undefined || languages === null || languages === '') return [];
+  const list = typeof languages === 'string' ? languages.split(',') : languages;
+  if (!Array.isArray(list) || !list.every(code => typeof code === 'string')) return 'languages must be a list of language codes';
+  const codes = list.map(code => code.trim()).filter(Boolean);
+  const invalid = codes.find(code => !LANGUAGE_CODE.test(code));
+  return invalid ? `Invalid language code: ${invalid}` : codes;
+}
+
+export const TRANSCRIPT_UNAVAILABLE = '**Note:** No transcript available (captions may be disabled for this video)';
+
+// Caption text arrives HTML-encoded, sometimes twice over (&amp;#39; for an apostrophe)
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeCaptionText(text: string) {
+  let decoded = text;
+  for (let pass = 0; pass < 3; pass++) {
+    const next = decoded.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    });
+    if (next === decoded) break;
+    decoded = next;
+  }
+  return decoded.replace(/\s+/g, ' ').trim();
+}
+
+// Paragraph sizing: close a paragraph at the first sentence end after PARAGRAPH_WORDS,
+// or at any sentence end followed by a pause. Auto-generated captions have no
+// punctuation, so they are cut at pauses or MAX_PARAGRAPH_WORDS instead.
+const PARAGRAPH_WORDS = 80;
+const MAX_PARAGRAPH_WORDS = 150;
+const PAUSE_MS = 2000;
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+
+function toParagraphs(items: TranscriptItem[]) {
+  const paragraphs: { offset: number; text: string }[] = [];
+  let current: { offset: number; parts: string[]; words: number } | null = null;
+
+  const close = () => {
+    if (current) paragraphs.push({ offset: current.offset, text: current.parts.join(' ') });
+    current = null;
+  };
+
+  items.forEach((item, i) => {
+    const text = decodeCaptionText(item.text);
+    if (!text) return;
+    // ">>" marks a change of speaker in manual captions
+    if (text.startsWith('>>')) close();
+
+    current ??= { offset: item.offset, parts: [], words: 0 };
+    current.parts.push(text);
+    current.words += countWords(text);
+
+    const next = items[i + 1];
+    const pause = next ? next.offset - (item.offset + item.duration) : Infinity;
+    const sentenceEnd = SENTENCE_END.test(text);
+    if ((sentenceEnd && (current.words >= PARAGRAPH_WORDS || pause >= PAUSE_MS))
+      || (!sentenceEnd && pause >= PAUSE_MS && current.words >= PARAGRAPH_WORDS / 2)
+      || current.words >= MAX_PARAGRAPH_WORDS) {
+      close();
+    }
+  });
+  close();
+  return paragraphs;
+}
+
+// Decides which lines or paragraphs carry a timestamp; one instance spans the whole transcript
+function timestamper(timestamps: TranscriptFormat['timestamps'] = 'each') {
+  let last = -Infinity;
+  return (offset: number) => {
+    if (timestamps === 'none') return false;
+    if (timestamps === 'each' || offset - last >= timestamps * 1000) {
+      last = offset;
+      return true;
+    }
+    return false;
+  };
+}
+
+function formatCaptions(items: TranscriptItem[], format: TranscriptFormat, stamp: (offset: number) => boolean) {
+  if (format.mode === 'paragraphs') {
+    return toParagraphs(items)
+      .map(paragraph => `${stamp(paragraph.offset) ? `**${formatTimestamp(paragraph.offset)}** ` : ''}${paragraph.text}\n\n`)
+      .join('');
+  }
+  return items
+    .map(item => ({ offset: item.offset, text: decodeCaptionText(item.text) }))
+    .filter(item => item.text)
+    .map(item => `${stamp(item.offset) ? `**${formatTimestamp(item.offset)}** - ` : ''}${item.text}\n\n`)
+    .join('');
+}
+
+// Layout fields (format, timestamps) of a transcript request body. Returns an error
+// message instead of throwing on bad input.
+export function parseTranscriptFormat(body: { format?: unknown; timestamps?: unknown }): TranscriptFormat | string {
+  const { format, timestamps } = body;
+  if (format !== undefined && format !== 'lines' && format !== 'paragraphs') return 'format must be lines or paragraphs';
+  if (timestamps !== undefined && timestamps !== 'each' && timestamps !== 'none'
+    && !(typeof timestamps === 'number' && Number.isInteger(timestamps) && timestamps >= 1)) {
+    return 'timestamps must be each, none or a whole number of seconds';
+  }
+  return { mode: format, timestamps };
+}
+
+// Markdown section appended after the video header: `## Transcript` plus the captions,
+// one line each or merged into paragraphs (see TranscriptFormat).
+// With chapters, captions are grouped under one `### Title (m:ss)` heading per chapter;
+// every chapter gets its heading, even one without captions, so the transcript covers
+// `youtube.chapters` for chapter export. A range clips the transcript to that part of the
+// video, keeping the chapters it overlaps; timestamps stay relative to the whole video.
+// The caption track used, if known, and the range are noted first.
+export function formatTranscriptMarkdown(
+  transcript: TranscriptItem[] | null,
+  chapters: YouTubeChapter[] = [],
+  format: TranscriptFormat = {},
+  track: CaptionTrack | null = null,
+  range: YouTubeTimeRange = {}
+) {
+  if (!transcript) return `\n\n${TRANSCRIPT_UNAVAILABLE}\n`;
+
+  const clipped = range.start !== undefined || range.end !== undefined;
+  const items = clipped ? clipTranscript(transcript, range) : transcript;
+  const stamp = timestamper(format.timestamps);
+  let markdown = `\n\n## Transcript\n\n`;
+  if (track) markdown += `_Captions: ${track.name}${track.autoGenerated ? ' (auto-generated)' : ''}_\n\n`;
+  if (clipped) markdown += `_Excerpt: ${describeRange(range)}_\n\n`;
+  if (items.length === 0) return markdown + '**Note:** No captions in this part of the video\n';
+  if (chapters.length === 0) return markdown + formatCaptions(items, format, stamp);
+
+  const rangeStart = range.start ?? 0;
+  const rangeEnd = range.end ?? Infinity;
+  chapters.forEach((chapter, i) => {
+    const end = chapters[i + 1]?.start ?? Infinity;
+    if (clipped && (chapter.start >= rangeEnd || end <= rangeStart)) return;
+    const chapterItems = items.filter(item => item.offset >= (i === 0 ? -Infinity : chapter.start) && item.offset < end);
+    markdown += `### ${chapter.title} (${formatTimestamp(chapter.start)})\n\n${formatCaptions(chapterItems, format, stamp)}`;
+  });
+  return markdown;
+}
+
+export function formatTranscriptText(transcript: TranscriptItem[]) {
+  return transcript.map(item => `[${formatTimestamp(item.offset)}] ${decodeCaptionText(item.text)}`).join('\n');
+}
+
+export const TRANSCRIPT_PLACEHOLDER = '_Fetching transcript..._';
+
+export const youtubeAdapter: SiteAdapter = {
+  name: 'youtube',
+  matches: (url) => isYoutubeUrl(url.href),
+  async extract(url, options) {
+    const inline = options.transcript === 'inline';
+    const range = options.transcriptRange ?? getYouTubeTimeRange(url);
+
+    const [metadata, captions] = await Promise.all([
+      getYouTubeMetadata(watchUrl(url)),
+      inline ? fetchCaptions(url, options.transcriptLanguages) : Promise.resolve(null)
+    ]);
+    const transcript = captions?.transcript ?? null;
+
+    const title = metadata?.title || `YouTube Video: ${url}`;
+    const channel = metadata?.channel || 'YouTube';
+    const description = metadata?.description || '';
+    const videoId = getYouTubeVideoId(url);
+    const chapters = parseChapters(description);
+
+    // Construct Markdown
+    let markdown = `# ${title}\n`;
+    markdown += `**Channel:** ${channel} | **Source:** [YouTube](${url})\n\n`;
+    if (description) {
+      markdown += `> ${description}\n\n`;
+    }
+    if (videoId && chapters.length > 0) {
+      markdown += `## Chapters\n\n${formatChapterList(videoId, chapters)}\n\n`;
+    }
+    markdown += inline ? formatTranscriptMarkdown(transcript, chapters, options.transcriptFormat, captions?.track, range).trimStart() : TRANSCRIPT_PLACEHOLDER;
+
+    // Construct HTML/Text
+    let content = `<h1>${title}</h1><p><strong>Channel:</strong> ${channel}</p>`;
+    if (description) content += `<blockquote>${description}</blockquote>`;
+    content += inline ? '' : `<p><em>Fetching transcript...</em></p>`;
+
+    let textContent = `${title}\nChannel: ${channel}\n\n${description}`;
+    if (inline && transcript) {
+      textContent += `\n\nTranscript:\n${formatTranscriptText(clipTranscript(transcript, range))}`;
+    } else if (!inline) {
+      textContent += `\n\nFetching transcript...`;
+    }
+
+    const result: ParseResult = {
+      title,
+      markdown,
+      content,
+      textContent,
+      siteName: channel,
+      byline: channel,
+      excerpt: description ? description.slice(0, 200) + '...' : '',
+      needsTranscript: !inline,
+      sourceUrl: url,
+      scrapedAt: new Date().toISOString(),
+      wordCount: countWords(textContent),
+      ...(videoId ? {
+        youtube: {
+          videoId,
+          chapters,
+          ...(captions?.track ? { captionTrack: captions.track } : {}),
+          ...(captions ? { captionTracks: captions.tracks } : {})
+        }
+      } : {})
+    };
+    return result;
+  }
+};
@@ -0,0 +1,40 @@
+import type JSZip from 'jszip';
+import { ExtractionError } from './types';
+
+// Uploads are capped at 25 MB compressed, but a zip bomb inflates far past that
+export const MAX_UNZIPPED_BYTES = 100 * 1024 * 1024;
+
+// Bytes an entry inflates to, streamed and discarded; stops reading once past `limit`
+function inflatedSize(file: JSZip.JSZipObject, limit: number) {
+  return new Promise<number>((resolve, reject) => {
+    let size = 0;
+    const stream = file.nodeStream();
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.pause();
+        stream.removeAllListeners();
+        resolve(size);
+      }
+    });
+    stream.on('end', () => resolve(size));
+    stream.on('error', reject);
+  });
+}
+
+// Inflates every entry once without keeping it, so an oversized archive fails before it
+// fills memory. Run before reading any entry.
+export async function checkUnzippedSize(zip: JSZip, format: string, maxBytes = MAX_UNZIPPED_BYTES) {
+  let total = 0;
+  for (const file of Object.values(zip.files)) {
+    if (file.dir) continue;
+    try {
+      total += await inflatedSize(file, maxBytes - total);
+    } catch {
+      throw new ExtractionError(`Could not read ${format}: corrupt zip archive`);
+    }
+    if (total > maxBytes) {
+      throw new ExtractionError(`${format} is larger than ${maxBytes / 1024 / 1024} MB uncompressed`, 413);
+    }
+  }
+}
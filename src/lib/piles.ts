@@ -0,0 +1,102 @@
+import { prisma } from './db';
+import { isContentExpired } from './retention';
+import type { ExportSource } from './export';
+
+// Shared pile queries. Every lookup is scoped to the owning user so a pile id
+// alone is never enough to read or modify someone else's pile.
+
+export async function findPile(pileId: string, userId: string) {
+  return prisma.pile.findFirst({
+    where: { id: pileId, userId },
+    include: {
+      items: {
+        orderBy: { position: 'asc' },
+        include: { document: true }
+      }
+    }
+  });
+}
+
+export async function listPiles(userId: string) {
+  return prisma.pile.findMany({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' },
+    include: { _count: { select: { items: true } } }
+  });
+}
+
+// Append a document at the end of the pile. Adding a document that is already
+// in the pile is a no-op and returns the existing item.
+export async function addDocumentToPile(pileId: string, documentId: string) {
+  return prisma.$transaction(async (tx) => {
+    // Touching the pile first locks its row, so concurrent appends to the same pile
+    // run one at a time and never read the same last position
+    await tx.pile.update({ where: { id: pileId }, data: { updatedAt: new Date() } });
+
+    const existing = await tx.pileItem.findUnique({
+      where: { pileId_documentId: { pileId, documentId } }
+    });
+    if (existing) return existing;
+
+    const last = await tx.pileItem.findFirst({
+      where: { pileId },
+      orderBy: { position: 'desc' },
+      select: { position: true }
+    });
+
+    return tx.pileItem.create({
+      data: { pileId, documentId, position: (last?.position ?? -1) + 1 }
+    });
+  });
+}
+
+export async function removeDocumentFromPile(pileId: string, documentId: string) {
+  const { count } = await prisma.pileItem.deleteMany({ where: { pileId, documentId } });
+  if (count > 0) {
+    await prisma.pile.update({ where: { id: pileId }, data: { updatedAt: new Date() } });
+  }
+  return count > 0;
+}
+
+// Rewrite positions to match the given order. The list must contain exactly
+// the documents currently in the pile; returns false otherwise.
+export async function reorderPile(pileId: string, documentIds: string[]) {
+  const items = await prisma.pileItem.findMany({ where: { pileId }, select: { documentId: true } });
+  const current = new Set(items.map(item => item.documentId));
+
+  if (documentIds.length !== current.size || new Set(documentIds).size !== documentIds.length) return false;
+  if (!documentIds.every(id => current.has(id))) return false;
+
+  await prisma.$transaction([
+    ...documentIds.map((documentId, position) =>
+      prisma.pileItem.update({
+        where: { pileId_documentId: { pileId, documentId } },
+        data: { position }
+      })
+    ),
+    prisma.pile.update({ where: { id: pileId }, data: { updatedAt: new Date() } })
+  ]);
+  return true;
+}
+
+type PileWithItems = NonNullable<Awaited<ReturnType<typeof findPile>>>;
+
+// Map stored documents onto the export shape. Documents whose content expired are skipped.
+export function toExportSources(pile: PileWithItems): ExportSource[] {
+  return pile.items
+    .filter(item => !isContentExpired(item.document))
+    .map(({ document }) => ({
+      id: document.id,
+      url: document.url,
+      result: {
+        id: document.id,
+        title: document.title || document.url,
+        markdown: document.markdown || '',
+        content: '',
+        textContent: '',
+        siteName: document.siteName || '',
+        sourceUrl: document.url,
+        scrapedAt: document.createdAt.toISOString()
+      }
+    }));
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import type { Plan } from '@prisma/client';
+import { prisma } from './db';
+
+// Plan tiers from the ideas doc. `null` means unlimited.
+export interface PlanLimits {
+  name: string;
+  priceMonthly: number; // USD
+  maxPiles: number | null;
+  maxUrls: number | null;
+}
+
+export const PLANS: Record<Plan, PlanLimits> = {
+  FREE: { name: 'Free', priceMonthly: 0, maxPiles: 1, maxUrls: 20 },
+  STARTER: { name: 'Starter', priceMonthly: 5, maxPiles: 5, maxUrls: 100 },
+  PRO: { name: 'Pro', priceMonthly: 17, maxPiles: 20, maxUrls: 500 },
+  UNLIMITED: { name: 'Unlimited', priceMonthly: 25, maxPiles: null, maxUrls: null }
+};
+
+export const PLAN_ORDER: Plan[] = ['FREE', 'STARTER', 'PRO', 'UNLIMITED'];
+
+export type QuotaResource = 'piles' | 'urls';
+
+export interface Usage {
+  piles: number;
+  urls: number;
+}
+
+export interface QuotaExceeded {
+  resource: QuotaResource;
+  plan: Plan;
+  limit: number;
+  usage: Usage;
+  upgradeTo: Plan | null;
+}
+
+// Stripe Payment Link for each paid plan, if configured (e.g. STRIPE_PAYMENT_LINK_PRO)
+export function getUpgradeUrl(plan: Plan) {
+  return process.env[`STRIPE_PAYMENT_LINK_${plan}`] || null;
+}
+
+export async function getUsage(userId: string): Promise<Usage> {
+  const [piles, urls] = await Promise.all([
+    prisma.pile.count({ where: { userId } }),
+    prisma.document.count({ where: { userId } })
+  ]);
+  return { piles, urls };
+}
+
+function limitFor(plan: Plan, resource: QuotaResource) {
+  return resource === 'piles' ? PLANS[plan].maxPiles : PLANS[plan].maxUrls;
+}
+
+// Cheapest plan that leaves room for `needed` of the resource
+function nextPlanWithRoom(plan: Plan, resource: QuotaResource, needed: number) {
+  return PLAN_ORDER
+    .slice(PLAN_ORDER.indexOf(plan) + 1)
+    .find(candidate => {
+      const limit = limitFor(candidate, resource);
+      return limit === null || limit >= needed;
+    }) || null;
+}
+
+// The single quota gate every ingest and pile-creation route goes through.
+// Returns null when the user may add `amount` more of the resource.
+export async function checkQuota(
+  user: { id: string; plan: Plan },
+  resource: QuotaResource,
+  amount = 1
+): Promise<QuotaExceeded | null> {
+  const limit = limitFor(user.plan, resource);
+  if (limit === null) return null;
+
+  const usage = await getUsage(user.id);
+  if (usage[resource] + amount <= limit) return null;
+
+  return {
+    resource,
+    plan: user.plan,
+    limit,
+    usage,
+    upgradeTo: nextPlanWithRoom(user.plan, resource, usage[resource] + amount)
+  };
+}
+
+// How many more of the resource the user may add; null when unlimited
+export async function remainingQuota(user: { id: string; plan: Plan }, resource: QuotaResource) {
+  const limit = limitFor(user.plan, resource);
+  if (limit === null) return null;
+  const usage = await getUsage(user.id);
+  return Math.max(0, limit - usage[resource]);
+}
+
+export function quotaExceededResponse(exceeded: QuotaExceeded) {
+  const label = exceeded.resource === 'piles' ? 'piles' : 'saved URLs';
+  const upgrade = exceeded.upgradeTo;
+
+  return NextResponse.json({
+    error: `${PLANS[exceeded.plan].name} plan limit reached: ${exceeded.limit} ${label}`,
+    code: 'QUOTA_EXCEEDED',
+    ...exceeded,
+    upgrade: upgrade ? { plan: upgrade, ...PLANS[upgrade], url: getUpgradeUrl(upgrade) } : null
+  }, { status: 403 });
+}
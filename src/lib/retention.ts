@@ -0,0 +1,34 @@
+import { prisma } from './db';
+
+// Stored context is kept for 30 days; the URL (and the row itself) for 90.
+export const CONTENT_RETENTION_DAYS = 30;
+export const URL_RETENTION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expiry timestamps for a document whose content was (re)fetched at `from`
+export function retentionDates(from = new Date()) {
+  return {
+    contentExpiresAt: new Date(from.getTime() + CONTENT_RETENTION_DAYS * DAY_MS),
+    urlExpiresAt: new Date(from.getTime() + URL_RETENTION_DAYS * DAY_MS)
+  };
+}
+
+export function isContentExpired(doc: { markdown: string | null; contentExpiresAt: Date | null }, now = new Date()) {
+  return doc.markdown === null || (doc.contentExpiresAt !== null && doc.contentExpiresAt <= now);
+}
+
+// Two-stage purge: drop the stored Markdown once content expires, then delete
+// the row (and its pile items, via cascade) once the URL expires too.
+export async function purgeExpiredDocuments(now = new Date()) {
+  const deleted = await prisma.document.deleteMany({
+    where: { urlExpiresAt: { lte: now } }
+  });
+
+  const cleared = await prisma.document.updateMany({
+    where: { contentExpiresAt: { lte: now }, markdown: { not: null } },
+    data: { markdown: null }
+  });
+
+  return { contentPurged: cleared.count, documentsDeleted: deleted.count };
+}
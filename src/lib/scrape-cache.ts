@@ -0,0 +1,77 @@
+import { createHash } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { getYouTubeTimeRange, getYouTubeVideoId } from './canonical-url';
+import type { ParseResult } from './types';
+
+// Results are reused for this long unless the caller passes `force`
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+function ttlSeconds() {
+  const configured = Number(process.env.SCRAPE_CACHE_TTL_SECONDS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_TTL_SECONDS;
+}
+
+export function hashContent(markdown: string) {
+  return createHash('sha256').update(markdown).digest('hex');
+}
+
+// The canonical URL, plus the time range of a YouTube link: canonicalizing drops t=,
+// but the range decides how the transcript is clipped
+export function scrapeCacheKey(canonicalUrl: string, url: string) {
+  if (!getYouTubeVideoId(url)) return canonicalUrl;
+  const { start, end } = getYouTubeTimeRange(url);
+  return start === undefined && end === undefined ? canonicalUrl : `${canonicalUrl}#range=${start ?? ''}-${end ?? ''}`;
+}
+
+// A cached result links to whichever variant of the URL was fetched first; point it at
+// the URL this caller asked for
+export function withSourceUrl(result: ParseResult, url: string): ParseResult {
+  const cachedUrl = result.sourceUrl;
+  if (!cachedUrl || cachedUrl === url) return { ...result, sourceUrl: url };
+  return { ...result, sourceUrl: url, markdown: result.markdown.split(`](${cachedUrl})`).join(`](${url})`) };
+}
+
+export interface CachedResult {
+  result: Record<string, unknown>;
+  contentHash: string;
+  cachedAt: Date;
+}
+
+export async function getCachedResult(key: string): Promise<CachedResult | null> {
+  try {
+    const entry = await prisma.scrapeCache.findUnique({ where: { key } });
+    if (!entry || entry.expiresAt <= new Date()) return null;
+    return { result: entry.result as Record<string, unknown>, contentHash: entry.contentHash, cachedAt: entry.createdAt };
+  } catch (e) {
+    // The cache is an optimisation; a database hiccup must not fail the request
+    console.warn('Scrape cache read failed:', e);
+    return null;
+  }
+}
+
+// Store a result under the canonical form of the URL that was fetched. Never under a
+// URL the page itself declares: the cache is shared by every user.
+export async function cacheResult(key: string, url: string, result: { markdown: string } & Record<string, unknown>) {
+  const ttl = ttlSeconds();
+  if (ttl === 0) return;
+
+  const data = {
+    url,
+    result: result as Prisma.InputJsonValue,
+    contentHash: hashContent(result.markdown),
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + ttl * 1000)
+  };
+
+  try {
+    await prisma.scrapeCache.upsert({ where: { key }, update: data, create: { key, ...data } });
+  } catch (e) {
+    console.warn('Scrape cache write failed:', e);
+  }
+}
+
+export async function purgeExpiredCache(now = new Date()) {
+  const { count } = await prisma.scrapeCache.deleteMany({ where: { expiresAt: { lte: now } } });
+  return count;
+}
@@ -0,0 +1,78 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+
+// Weighted document vector: title ranks above site name, which ranks above body text.
+// Must match the expression index in prisma/sql/document_search_index.sql.
+const DOCUMENT_SEARCH_VECTOR = Prisma.sql`(
+  setweight(to_tsvector('english', coalesce(d."title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(d."siteName", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(d."markdown", '')), 'C')
+)`;
+
+// ts_headline wraps matches in these; they are swapped for <mark> after HTML-escaping
+// the snippet, so document text can never inject markup into the results list.
+const HIT_START = '\u0002';
+const HIT_END = '\u0003';
+
+export interface SearchHit {
+  id: string;
+  url: string;
+  title: string | null;
+  siteName: string | null;
+  createdAt: Date;
+  rank: number;
+  snippet: string;
+  piles: { id: string; title: string }[];
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toSnippetHtml(raw: string) {
+  return escapeHtml(raw)
+    .split(HIT_START).join('<mark>')
+    .split(HIT_END).join('</mark>');
+}
+
+// Ranked full-text search over the user's documents. `query` uses web-search syntax:
+// quoted phrases, `or`, and `-excluded` terms.
+export async function searchDocuments(userId: string, query: string, limit = 20): Promise<SearchHit[]> {
+  const rows = await prisma.$queryRaw<Omit<SearchHit, 'piles'>[]>`
+    SELECT
+      d."id",
+      d."url",
+      d."title",
+      d."siteName",
+      d."createdAt",
+      ts_rank(${DOCUMENT_SEARCH_VECTOR}, q.query)::float8 AS "rank",
+      ts_headline(
+        'english',
+        coalesce(d."markdown", d."title", ''),
+        q.query,
+        ${`StartSel=${HIT_START}, StopSel=${HIT_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`}
+      ) AS "snippet"
+    FROM "Document" d, websearch_to_tsquery('english', ${query}) AS q(query)
+    WHERE d."userId" = ${userId}
+      AND ${DOCUMENT_SEARCH_VECTOR} @@ q.query
+    ORDER BY "rank" DESC, d."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  if (rows.length === 0) return [];
+
+  const items = await prisma.pileItem.findMany({
+    where: { documentId: { in: rows.map(row => row.id) } },
+    select: { documentId: true, pile: { select: { id: true, title: true } } }
+  });
+
+  return rows.map(row => ({
+    ...row,
+    snippet: toSnippetHtml(row.snippet),
+    piles: items.filter(item => item.documentId === row.id).map(item => item.pile)
+  }));
+}
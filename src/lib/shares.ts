@@ -0,0 +1,34 @@
+import { randomBytes } from 'crypto';
+import { prisma } from './db';
+import { findPile } from './piles';
+
+export function generateShareToken() {
+  // 24 random bytes -> 32 URL-safe characters
+  return randomBytes(24).toString('base64url');
+}
+
+export function isShareActive(share: { expiresAt: Date | null; revokedAt: Date | null }, now = new Date()) {
+  if (share.revokedAt) return false;
+  if (share.expiresAt && share.expiresAt <= now) return false;
+  return true;
+}
+
+// Resolve a public token to its pile and record the view.
+// Returns null for unknown, revoked and expired tokens alike so callers cannot tell them apart.
+export async function openShare(token: string) {
+  const share = await prisma.pileShare.findUnique({
+    where: { token },
+    include: { pile: { select: { userId: true } } }
+  });
+  if (!share || !isShareActive(share)) return null;
+
+  const pile = await findPile(share.pileId, share.pile.userId);
+  if (!pile) return null;
+
+  await prisma.pileShare.update({
+    where: { id: share.id },
+    data: { viewCount: { increment: 1 }, lastViewedAt: new Date() }
+  });
+
+  return { share, pile };
+}
@@ -0,0 +1,122 @@
+// One of a YouTube video's caption tracks
+export interface CaptionTrack {
+  languageCode: string;
+  name: string;
+  autoGenerated: boolean;
+}
+
+// Shape returned by the processor routes and held client-side for each document
+export interface ParseResult {
+  id?: string;
+  // The history row the ingest routes saved this result as
+  documentId?: string;
+  title: string;
+  content: string; // HTML
+  textContent: string;
+  markdown: string;
+  siteName: string;
+  byline?: string;
+  excerpt?: string;
+  needsTranscript?: boolean;
+  // Enhanced metadata fields
+  sourceUrl?: string;
+  canonicalUrl?: string;
+  scrapedAt?: string;
+  wordCount?: number;
+  language?: string;
+  headings?: { level: number; text: string }[];
+  links?: { text: string; href: string }[];
+  images?: { src: string; alt: string }[];
+  // Structured data the page publishes (JSON-LD, OpenGraph, Twitter cards, <meta>)
+  metadata?: {
+    title?: string;
+    description?: string;
+    author?: string;
+    publishedAt?: string;
+    modifiedAt?: string;
+    publisher?: string;
+    canonicalUrl?: string;
+    section?: string;
+    keywords?: string[];
+    type?: string;
+    image?: string;
+    siteName?: string;
+    locale?: string;
+  };
+  wikipedia?: {
+    infobox?: Record<string, string>;
+    categories?: string[];
+    references?: string[];
+  };
+  pdf?: {
+    title?: string;
+    author?: string;
+    subject?: string;
+    creator?: string;
+    producer?: string;
+    createdAt?: string;
+    pageCount: number;
+  };
+  // YouTube videos. Chapters come from timestamps in the description; start is in ms.
+  youtube?: {
+    videoId: string;
+    chapters: { title: string; start: number }[];
+    // The caption track the transcript was taken from, and every track the video offers
+    captionTrack?: CaptionTrack;
+    captionTracks?: CaptionTrack[];
+  };
+  // Academic papers (arXiv)
+  paper?: {
+    arxivId: string;
+    title: string;
+    authors: string[];
+    abstract: string;
+    primaryCategory: string;
+    categories: string[];
+    published: string;
+    updated: string;
+    doi?: string;
+    journalRef?: string;
+    comment?: string;
+    pdfUrl: string;
+    fullTextSource: 'html' | 'pdf' | null;
+    references: string[];
+    citation: string;
+    bibtex: string;
+  };
+  // RSS/Atom feeds: entries after the since/maxItems filters. `result` is set when the
+  // feed carries the full article; other entries are fetched from their url.
+  feed?: {
+    title: string;
+    link?: string;
+    totalEntries: number;
+    entries: {
+      url: string;
+      title: string;
+      published?: string;
+      author?: string;
+      result?: ParseResult;
+    }[];
+  };
+  // YouTube playlists and channel uploads: videos after the since/maxItems filters, in
+  // playlist order (channels: newest first). Each video is fetched from its url.
+  playlist?: {
+    kind: 'playlist' | 'channel';
+    title: string;
+    channel?: string;
+    url: string;
+    totalVideos?: number;
+    entries: {
+      url: string;
+      videoId: string;
+      title: string;
+      // Exact for the newest videos (from YouTube's feed), otherwise estimated from "3 weeks ago"
+      published?: string;
+      duration?: number; // seconds
+    }[];
+  };
+  // Server cache info
+  cached?: boolean;
+  cachedAt?: string;
+  contentHash?: string;
+}
@@ -0,0 +1,16 @@
+import { prisma } from './db';
+
+// Authentication was removed, so every request currently acts as one local user.
+// When auth comes back, resolve the signed-in user here and nothing else has to change.
+export const LOCAL_USER_ID = 'local';
+
+export async function getCurrentUser() {
+  return prisma.user.upsert({
+    where: { id: LOCAL_USER_ID },
+    update: {},
+    create: {
+      id: LOCAL_USER_ID,
+      email: 'local@contextpile.dev'
+    }
+  });
+}